@@ -1,6 +1,11 @@
 type Rules = SimpleRule[];
 
-type LexicalModes<U extends string> = Record<U, StateSwitchingRule<NoInfer<U>>[]>;
+type LexicalModes<U extends string> = Record<U, StateRule<NoInfer<StateName<U>>>[]>;
+
+/**
+ * The rules of the `$all` key are shared by every state
+ */
+type StateName<U extends string> = Exclude<U, "$all">;
 
 type SimpleRule =
 	| {
@@ -8,17 +13,41 @@ type SimpleRule =
 			match: Pattern;
 			value?: StringMapper;
 			option?: "error" | "skip";
+			/**
+			 * Matches the strings and RegExps of the rule case-insensitively
+			 */
+			ignoreCase?: boolean;
+			/**
+			 * Counts the line breaks of the matches, required when the rule can match one. Fallback
+			 * and error tokens always count them.
+			 */
+			lineBreaks?: boolean;
+			/**
+			 * Skips the check that the RegExps of the rule cannot backtrack catastrophically, for
+			 * the RegExps known to be safe on any input
+			 */
+			allowBacktracking?: boolean;
 	  }
 	| {
 			type: string;
 			match?: never;
 			value?: never;
 			option: "fallback" | "error";
+			ignoreCase?: never;
+			lineBreaks?: never;
+			allowBacktracking?: never;
 	  };
 
 type StateSwitchingRule<U extends string> = SimpleRule &
 	({ next?: U; push?: never; pop?: 1 } | { next?: never; push?: U; pop?: 1 });
 
+/**
+ * Splices the rules of other states in place
+ */
+type IncludeRule<U extends string> = { include: U | U[]; type?: never; match?: never };
+
+type StateRule<U extends string> = StateSwitchingRule<U> | IncludeRule<U>;
+
 type StringMapper = (x: string) => string;
 
 type Pattern = string | RegExp | (string | RegExp)[];
@@ -26,37 +55,399 @@ type Pattern = string | RegExp | (string | RegExp)[];
 type LexerStates = Record<string, LexerState>;
 
 type LexerState = {
-	regex: RegExp;
+	/**
+	 * The rules are split into consecutive runs of case-sensitive and case-insensitive matches,
+	 * compiled separately since a RegExp cannot mix both
+	 */
+	matchers: Matcher[];
+	/**
+	 * The rules matching a single character, by char code, or null if there are none
+	 */
+	fast: SimpleRule[] | null;
+	/**
+	 * The alternatives of the rules, when the state looks for the longest match
+	 */
+	longest: LongestMatcher | null;
 	rules: SimpleRule[];
 	options: StateOptions;
+	/**
+	 * The automaton of the rules, built when streamed data first fails to match, or null if the rules
+	 * cannot be analysed
+	 */
+	prefixes?: Prefixes | null;
+};
+
+// An automaton matching the prefixes of the matches of a state
+type Prefixes = { nfa: Nfa; flag: UnicodeFlag };
+
+type Matcher = {
+	regex: RegExp;
+	/**
+	 * The rules with a match, in the order of the capture groups of the regex
+	 */
+	groups: SimpleRule[];
+	/**
+	 * The first group matching each literal, case-sensitively
+	 */
+	literals: Map<string, number>;
+	/**
+	 * The groups which can match something else than their literals, in order
+	 */
+	dynamic: number[];
+	/**
+	 * The dynamic groups which can start with each ASCII character, by char code
+	 */
+	dispatch: number[][];
+};
+
+type LongestMatcher = {
+	/**
+	 * The case-sensitive literals by char code of their first character, longest first
+	 */
+	literals: Map<number, Alternative[]>;
+	/**
+	 * The other alternatives as sticky RegExps, in order
+	 */
+	regexes: (Alternative & { regex: RegExp })[];
+	/**
+	 * The RegExp alternatives which can start with each ASCII character, by char code
+	 */
+	dispatch: (Alternative & { regex: RegExp })[][];
 };
 
+// An alternative of a rule, `order` being the index of the rule in its state
+type Alternative = { text: string; rule: SimpleRule; order: number };
+
+// A rule matching at some index of the data
+type Match = { index: number; text: string; rule: SimpleRule };
+
 type StateOptions = {
 	fallbackRule?: SimpleRule | undefined;
 	errorRule?: SimpleRule | undefined;
 };
 
-export function compile(rules: Rules): Lexer {
-	const result = compileRules(rules);
-	return new Lexer({ start: result }, "start");
+// The internal position of a lexer, before a token lexed ahead or at a mark
+type LexerPosition = {
+	offset: number;
+	line: number;
+	col: number;
+	stateName: string;
+	stack: string[];
+	queuedText: string;
+	queuedRule: SimpleRule | null | undefined;
+};
+
+// The state of the lexer when a token is lexed, shared by the tokens until the state changes
+type StateFrame = { readonly stateName: string; readonly stack: readonly string[] };
+
+/**
+ * An edit of the data: `length` code units at `offset` replaced with `text`.
+ */
+type TextEdit = { offset: number; length: number; text: string };
+
+/**
+ * How token columns are counted: in UTF-16 code units like JavaScript strings, in Unicode code
+ * points, in grapheme clusters (user-perceived characters), or in display width, where wide
+ * characters and emoji take two columns and tabs move to the next tab stop.
+ */
+type ColumnUnit = "utf16" | "codepoint" | "grapheme" | "width";
+
+/**
+ * Which line breaks start new lines: LF only, LF, CRLF and CR, or also the Unicode line and
+ * paragraph separators U+2028 and U+2029, and NEL (U+0085).
+ */
+type NewlinePolicy = "lf" | "any" | "unicode";
+
+/**
+ * Which rule wins when several match at the same position: the first one in order, or the one with
+ * the longest match, ties being broken by order (maximal munch).
+ */
+type MatchStrategy = "first" | "longest";
+
+type LexerOptions = {
+	/**
+	 * Which line breaks start new lines. Defaults to "lf".
+	 */
+	newlines?: NewlinePolicy;
+	/**
+	 * How token columns are counted. Defaults to "utf16".
+	 */
+	columns?: ColumnUnit;
+	/**
+	 * The distance between tab stops, when columns are counted in display width. Defaults to 4.
+	 */
+	tabSize?: number;
+	/**
+	 * Which rule wins when several match at the same position, in every state or by state name.
+	 * Defaults to "first".
+	 */
+	strategy?: MatchStrategy | Record<string, MatchStrategy>;
+	/**
+	 * What to do when an earlier rule always matches where a literal of a later rule does, so the
+	 * literal never matches. Defaults to "ignore", "warn" logging the shadowed literals to the console.
+	 */
+	shadowing?: "error" | "warn" | "ignore";
+};
+
+/**
+ * How columns are counted: in UTF-16 code units like JavaScript strings, in Unicode code points, or
+ * in UTF-8 bytes.
+ */
+type PositionEncoding = "utf16" | "codepoint" | "utf8";
+
+type PeekedToken = { token: Token; position: LexerPosition };
+
+type MarkRecord = { mark: LexerMark; position: LexerPosition; lookahead: PeekedToken[] };
+
+declare const markBrand: unique symbol;
+
+/**
+ * An opaque checkpoint of the lexer, as returned by `mark()`.
+ */
+export type LexerMark = { readonly [markBrand]: true };
+
+type TextStream = AsyncIterable<string | Uint8Array> | ReadableStream<string | Uint8Array>;
+
+type FormatErrorOptions = {
+	/**
+	 * The number of lines displayed before and after the error. Defaults to 2.
+	 */
+	contextLines?: number;
+};
+
+/**
+ * A serialisable snapshot of the lexer position, as returned by `save()`.
+ */
+export type LexerSnapshot = {
+	/**
+	 * The offset of the position from the start of the input.
+	 */
+	offset: number;
+	line: number;
+	col: number;
+	stateName: string;
+	stack: string[];
+	/**
+	 * The text of a token matched right after a fallback token, not returned yet.
+	 */
+	queuedText: string;
+	/**
+	 * The index of the queued token's rule in its state, or null if nothing is queued.
+	 */
+	queuedRule: number | null;
+};
+
+/**
+ * The state of the lexer at the end of a line, as returned by `tokenizeLine()`.
+ */
+export type LineState = LexerSnapshot & {
+	/**
+	 * The text of the tokens reaching the end of the line, which may continue on the next line.
+	 */
+	pendingText: string;
+};
+
+export type GrammarErrorCode =
+	| "NO_RULES"
+	| "NO_START_STATE"
+	| "MISSING_RULES"
+	| "MISSING_STATE"
+	| "MULTIPLE_FALLBACK"
+	| "MULTIPLE_ERROR"
+	| "STATELESS_SWITCH"
+	| "INVALID_POP"
+	| "INVALID_INCLUDE"
+	| "INVALID_PATTERN"
+	| "INVALID_FLAG"
+	| "MIXED_FLAGS"
+	| "EMPTY_MATCH"
+	| "INVALID_OPTION"
+	| "LINE_BREAKS"
+	| "SHADOWED_RULE"
+	| "BACKTRACKING"
+	| "CAPTURE_GROUP"
+	| "INVALID_KEYWORD";
+
+type GrammarPath = {
+	stateName?: string | undefined;
+	ruleIndex?: number | undefined;
+	ruleType?: string | undefined;
+};
+
+/**
+ * Thrown when compiling invalid rules.
+ */
+export class GrammarError extends Error {
+	override name = "GrammarError";
+	/**
+	 * A stable identifier of the problem.
+	 */
+	code: GrammarErrorCode;
+	/**
+	 * The state containing the offending rule, if any.
+	 */
+	stateName: string | undefined;
+	/**
+	 * The index of the offending rule in its state, if any.
+	 */
+	ruleIndex: number | undefined;
+	/**
+	 * The type of the offending rule, unless it is a function.
+	 */
+	ruleType: string | undefined;
+
+	constructor(code: GrammarErrorCode, message: string, path: GrammarPath = {}) {
+		super(message);
+		this.code = code;
+		this.stateName = path.stateName;
+		this.ruleIndex = path.ruleIndex;
+		this.ruleType = path.ruleType;
+	}
+}
+
+export type LexErrorCode = "UNMATCHED_INPUT" | "UNKNOWN_RULE" | "UNKNOWN_STATE" | "UNKNOWN_MARK";
+
+/**
+ * Thrown by the lexer when it cannot proceed on its input.
+ */
+export class LexError extends Error {
+	override name = "LexError";
+	/**
+	 * A stable identifier of the problem.
+	 */
+	code: LexErrorCode;
+	/**
+	 * The offset from the start of the input where the error occurred.
+	 */
+	offset: number;
+	line: number;
+	col: number;
+	/**
+	 * The state the lexer was in.
+	 */
+	stateName: string;
+	/**
+	 * The state stack of the lexer. (`stack` already holds the call stack of the error.)
+	 */
+	stateStack: string[];
+	/**
+	 * The offending text.
+	 */
+	text: string;
+	/**
+	 * The types of the rules which could have matched in the current state.
+	 */
+	expected: string[];
+
+	constructor(code: LexErrorCode, message: string, details: LexErrorDetails) {
+		super(message);
+		this.code = code;
+		this.offset = details.offset;
+		this.line = details.line;
+		this.col = details.col;
+		this.stateName = details.stateName;
+		this.stateStack = details.stateStack;
+		this.text = details.text;
+		this.expected = details.expected;
+	}
+}
+
+type LexErrorDetails = Pick<
+	LexError,
+	"offset" | "line" | "col" | "stateName" | "stateStack" | "text" | "expected"
+>;
+
+export type GrammarIssueCode = "DEAD_RULE" | "OVERLAP" | "UNREACHABLE_STATE" | "NO_POP";
+
+/**
+ * A problem of a grammar, as reported by `analyze()`.
+ */
+export type GrammarIssue = {
+	code: GrammarIssueCode;
+	message: string;
+	stateName: string;
+	/**
+	 * The index of the rule in its state, for the issues of a rule.
+	 */
+	ruleIndex?: number | undefined;
+	/**
+	 * The type of the rule, unless it is a function.
+	 */
+	ruleType?: string | undefined;
+	/**
+	 * The index of the earlier rule matching the same text, for overlaps.
+	 */
+	otherRuleIndex?: number | undefined;
+	/**
+	 * A text matched by both rules, for overlaps.
+	 */
+	witness?: string | undefined;
+};
+
+export function compile(rules: Rules, options?: LexerOptions): Lexer {
+	const result = compileRules(rules, false, "start", options);
+	return new Lexer({ start: result }, "start", options);
 }
 
-function compileRules(rules: SimpleRule[], hasStates = false): LexerState {
-	const parts: string[] = [];
+function compileRules(
+	rules: SimpleRule[],
+	hasStates: boolean,
+	stateName: string,
+	lexerOptions: LexerOptions = {},
+): LexerState {
+	const runs: (Omit<Matcher, "regex" | "dispatch"> & {
+		ignoreCase: boolean;
+		parts: string[];
+		// The alternatives of each group
+		alternatives: (string | RegExp)[][];
+	})[] = [];
 	const options: StateOptions = {};
+	let unicodeFlag: UnicodeFlag | null = null;
+	const fast: SimpleRule[] = [];
+	const hasFallback = rules.some((rule) => rule.option === "fallback");
 
 	if (rules.length === 0) {
-		throw new Error("no rules provided");
+		throw new GrammarError("NO_RULES", "no rules provided", { stateName });
 	}
 
-	for (const rule of rules) {
+	const strategy =
+		typeof lexerOptions.strategy === "object"
+			? (lexerOptions.strategy[stateName] ?? "first")
+			: (lexerOptions.strategy ?? "first");
+	if (strategy !== "first" && strategy !== "longest") {
+		throw new GrammarError("INVALID_OPTION", `Invalid strategy '${strategy}'`, { stateName });
+	}
+	// The alternatives of every rule are tried in turn, so a longer match can win over an earlier one
+	const alternatives: (Alternative & {
+		literal: boolean;
+		ignoreCase: boolean;
+		pattern: string | RegExp;
+	})[] = [];
+	// Fast single characters would win over longer matches
+	let fastAllowed = strategy === "first";
+
+	// Copied, since the rules whose line breaks cannot be known are changed to count them
+	rules = rules.slice();
+	for (const [ruleIndex, original] of rules.entries()) {
+		let rule = original;
+		const path = { stateName, ruleIndex, ruleType: ruleTypeName(rule) };
+
+		if ("include" in rule) {
+			// all valid inclusions are removed by states()
+			throw new GrammarError(
+				"INVALID_INCLUDE",
+				"Inheritance is not allowed in stateless lexers",
+				path,
+			);
+		}
+
 		switch (rule.option) {
 			case "fallback":
 				if (!options.fallbackRule) {
 					options.fallbackRule = rule;
 					continue;
 				} else {
-					throw new Error("Multiple fallback rules not allowed");
+					throw new GrammarError("MULTIPLE_FALLBACK", "Multiple fallback rules not allowed", path);
 				}
 
 			case "error":
@@ -65,16 +456,18 @@ function compileRules(rules: SimpleRule[], hasStates = false): LexerState {
 					// An error rule can have a match
 					if (!rule.match) continue;
 				} else {
-					throw new Error("Multiple error rules not allowed");
+					throw new GrammarError("MULTIPLE_ERROR", "Multiple error rules not allowed", path);
 				}
 		}
 
 		if ("next" in rule || "push" in rule || "pop" in rule) {
 			if (!hasStates) {
-				throw new Error(
+				throw new GrammarError(
+					"STATELESS_SWITCH",
 					"State-switching options are not allowed in stateless lexers (for token '" +
 						rule.type +
 						"')",
+					path,
 				);
 			}
 			// if (rule.option==="") {
@@ -86,51 +479,333 @@ function compileRules(rules: SimpleRule[], hasStates = false): LexerState {
 			// }
 		}
 
-		const pattern = patternToString(rule.match);
-		const regex = new RegExp(pattern);
+		// Check the unicode flag is used everywhere or nowhere
+		for (const obj of Array.isArray(rule.match) ? rule.match : [rule.match]) {
+			if (!isRegExp(obj)) continue;
+
+			const flag = unicodeFlagOf(obj);
+			if (unicodeFlag === null) {
+				unicodeFlag = flag;
+			} else if (unicodeFlag !== flag) {
+				throw new GrammarError(
+					"MIXED_FLAGS",
+					unicodeFlag && flag
+						? "RegExp /u and /v flags cannot be mixed"
+						: `If one rule is /${unicodeFlag || flag} then all must be`,
+					path,
+				);
+			}
+		}
+
+		const pattern = patternToString(rule.match, path);
+		const regex = new RegExp(pattern, unicodeFlag ?? "");
 
 		// validate
 		if (regex.test("")) {
-			throw new Error("RegExp matches empty string: " + regex);
+			throw new GrammarError("EMPTY_MATCH", "RegExp matches empty string: " + regex, path);
+		}
+		if (!rule.lineBreaks) {
+			const newlines = lexerOptions.newlines ?? "lf";
+			const lineBreak =
+				matchesLineBreak(rule, unicodeFlag ?? "", newlines) ??
+				(LINE_BREAKS[newlines].some((nl) => regex.test(nl)) || null);
+			if (lineBreak) {
+				throw new GrammarError(
+					"LINE_BREAKS",
+					`Rule '${path.ruleType}' in state '${stateName}' can match a line break, so it should declare lineBreaks: ${regex}`,
+					path,
+				);
+			}
+			// The error rule counts its line breaks anyway
+			if (lineBreak === null && rule.option !== "error") {
+				rule = { ...rule, lineBreaks: true };
+				rules[ruleIndex] = rule;
+			}
 		}
 
-		const groupCount = reGroups(pattern);
+		const groupCount = reGroups(pattern, unicodeFlag ?? "");
 		if (groupCount > 0) {
-			throw new Error("RegExp has capture groups: " + regex + "\nUse (?: … ) instead");
+			throw new GrammarError(
+				"CAPTURE_GROUP",
+				"RegExp has capture groups: " + regex + "\nUse (?: … ) instead",
+				path,
+			);
+		}
+		if (!rule.allowBacktracking) {
+			for (const obj of Array.isArray(rule.match) ? rule.match : [rule.match]) {
+				const growth = isRegExp(obj) && backtrackingOf(obj, unicodeFlag ?? "");
+				if (!growth) continue;
+				throw new GrammarError(
+					"BACKTRACKING",
+					`Rule '${path.ruleType}' in state '${stateName}' can take ${growth} time to match some inputs, unless it declares allowBacktracking: ${obj}`,
+					path,
+				);
+			}
+		}
+
+		const match = Array.isArray(rule.match) ? sortLiterals(rule.match) : [rule.match];
+
+		// Leading single-character literals are dispatched on their char code, without the RegExp.
+		// A fallback rule searches ahead for the next match, so the RegExp must still find them
+		if (fastAllowed && !rule.ignoreCase) {
+			let i = 0;
+			while (
+				i < match.length &&
+				typeof match[i] === "string" &&
+				(match[i] as string).length === 1
+			) {
+				const code = (match[i] as string).charCodeAt(0);
+				// An earlier rule wins
+				if (!fast[code]) fast[code] = rule;
+				i++;
+			}
+			if (!hasFallback) match.splice(0, i);
+			if (i < match.length) fastAllowed = false;
+		} else {
+			fastAllowed = false;
+		}
+		if (match.length === 0) continue;
+
+		// Distribute the alternatives into runs of the same case sensitivity, preserving their order
+		let previous: (typeof runs)[number] | undefined;
+		for (const obj of match) {
+			const ignoreCase = !!rule.ignoreCase || (isRegExp(obj) && obj.ignoreCase);
+			const source = patternToString(obj, path);
+
+			let run = runs[runs.length - 1];
+			if (!run || run.ignoreCase !== ignoreCase) {
+				run = {
+					ignoreCase,
+					parts: [],
+					groups: [],
+					literals: new Map(),
+					dynamic: [],
+					alternatives: [],
+				};
+				runs.push(run);
+			}
+			if (run === previous) {
+				run.parts[run.parts.length - 1] += "|" + source;
+				run.alternatives[run.alternatives.length - 1]?.push(obj);
+			} else {
+				run.groups.push(rule);
+				run.parts.push(source);
+				run.alternatives.push([obj]);
+				previous = run;
+			}
+
+			const group = run.groups.length - 1;
+			if (typeof obj === "string" && !ignoreCase) {
+				if (!run.literals.has(obj)) run.literals.set(obj, group);
+			} else if (run.dynamic[run.dynamic.length - 1] !== group) {
+				run.dynamic.push(group);
+			}
+
+			if (strategy === "longest") {
+				const literal = typeof obj === "string" && !ignoreCase;
+				const text = literal ? obj : source;
+				alternatives.push({ text, rule, order: ruleIndex, literal, ignoreCase, pattern: obj });
+			}
 		}
+	}
 
-		parts.push(reCapture(pattern));
+	const shadowing = lexerOptions.shadowing ?? "ignore";
+	if (shadowing !== "ignore") {
+		const errors = findShadowedLiterals(rules, stateName, unicodeFlag ?? "", strategy);
+		if (errors[0] && shadowing === "error") throw errors[0];
+		for (const error of errors) console.warn(error.message);
 	}
 
-	const flags = options.fallbackRule ? "gm" : "ym";
-	const combined = new RegExp(reUnion(parts), flags);
+	// If there's no fallback rule, use the sticky flag so we only look for
+	// matches at the current index.
+	const flags = (options.fallbackRule ? "gm" : "ym") + (unicodeFlag ?? "");
+	const matchers = runs.map(({ ignoreCase, parts, groups, literals, dynamic, alternatives }) => ({
+		regex: new RegExp(reUnion(parts.map(reCapture)), ignoreCase ? flags + "i" : flags),
+		groups,
+		literals,
+		dynamic,
+		dispatch: dispatchTable(
+			dynamic.map((group) => ({ item: group, patterns: alternatives[group] ?? [], ignoreCase })),
+			unicodeFlag ?? "",
+		),
+	}));
+
+	let longest: LongestMatcher | null = null;
+	if (strategy === "longest") {
+		longest = { literals: new Map(), regexes: [], dispatch: [] };
+		const regexes: Dispatched<LongestMatcher["regexes"][number]>[] = [];
+		for (const { text, rule, order, literal, ignoreCase, pattern } of alternatives) {
+			if (!literal) {
+				const stickyFlags = "ym" + (unicodeFlag ?? "") + (ignoreCase ? "i" : "");
+				const item = { text, rule, order, regex: new RegExp(text, stickyFlags) };
+				longest.regexes.push(item);
+				regexes.push({ item, patterns: [pattern], ignoreCase });
+				continue;
+			}
+			const code = text.charCodeAt(0);
+			const bucket = longest.literals.get(code) ?? [];
+			bucket.push({ text, rule, order });
+			longest.literals.set(code, bucket);
+		}
+		// Stable, so literals of the same length stay in order
+		for (const bucket of longest.literals.values()) {
+			bucket.sort((a, b) => b.text.length - a.text.length);
+		}
+		longest.dispatch = dispatchTable(regexes, unicodeFlag ?? "");
+	}
 
 	return {
-		regex: combined,
+		matchers,
+		// A lookup is made on every token, so the table is a dense array
+		fast: fast.length > 0 ? Array.from(fast) : null,
+		longest,
 		rules,
 		options,
 	};
 }
 
-function patternToString(pattern: Pattern): string {
+// An item to dispatch, with the alternatives it matches
+type Dispatched<T> = { item: T; patterns: (string | RegExp)[]; ignoreCase: boolean };
+
+/**
+ * Indexes items by the ASCII characters which can start the matches of their patterns, so that only
+ * a few of them are tried on a match. An item whose first characters cannot be known is a candidate
+ * for every character.
+ */
+function dispatchTable<T>(items: Dispatched<T>[], flag: UnicodeFlag): T[][] {
+	const dispatch: T[][] = Array.from({ length: 128 }, () => []);
+	for (const { item, patterns, ignoreCase } of items) {
+		const first = attempt(() =>
+			firstChars({
+				kind: "alternation",
+				nodes: patterns.map((obj) =>
+					typeof obj === "string"
+						? parseRegExp(reEscape(obj), flag, ignoreCase, false)
+						: parseRegExp(obj.source, flag, ignoreCase, obj.dotAll, true),
+				),
+			}),
+		);
+		for (let code = 0; code < 128; code++) {
+			if (!first || first.nullable || intersect(first.chars, [[code, code]]).length > 0) {
+				(dispatch[code] as T[]).push(item);
+			}
+		}
+	}
+	return dispatch;
+}
+
+/**
+ * Sorts the runs of consecutive literals of a rule longest first, so that a literal is not cut short
+ * by one of its prefixes. RegExps keep their place, since they may be meant to win over a literal
+ */
+function sortLiterals(match: (string | RegExp)[]) {
+	const sorted = match.slice();
+	let start = 0;
+	for (let i = 0; i <= sorted.length; i++) {
+		if (typeof sorted[i] === "string") continue;
+		const run = (sorted.slice(start, i) as string[]).sort((a, b) => b.length - a.length);
+		sorted.splice(start, run.length, ...run);
+		start = i + 1;
+	}
+	return sorted;
+}
+
+/**
+ * Finds the literals which can never match, since an earlier rule of the state always matches
+ * where it does. Only the RegExps matching regardless of the surrounding text are considered
+ */
+function findShadowedLiterals(
+	rules: SimpleRule[],
+	stateName: string,
+	unicodeFlag: UnicodeFlag,
+	strategy: MatchStrategy,
+): GrammarError[] {
+	const errors: GrammarError[] = [];
+	const earlier: { regex: RegExp; rule: SimpleRule }[] = [];
+
+	for (const [ruleIndex, rule] of rules.entries()) {
+		if (!rule.match) continue;
+		const match = Array.isArray(rule.match) ? rule.match : [rule.match];
+
+		for (const literal of match) {
+			if (typeof literal !== "string" || rule.ignoreCase) continue;
+			for (const { regex, rule: shadow } of earlier) {
+				regex.lastIndex = 0;
+				const found = regex.exec(literal);
+				// The longest match only loses to an earlier rule matching as much
+				if (found === null || (strategy === "longest" && found[0].length < literal.length)) {
+					continue;
+				}
+				const ruleType = ruleTypeName(rule);
+				errors.push(
+					new GrammarError(
+						"SHADOWED_RULE",
+						`Literal '${literal}' of rule '${ruleType}' in state '${stateName}' is shadowed by rule '${ruleTypeName(shadow)}'`,
+						{ stateName, ruleIndex, ruleType },
+					),
+				);
+				break;
+			}
+		}
+
+		for (const obj of match) {
+			if (isRegExp(obj) && !isContextFree(obj.source)) continue;
+			const ignoreCase = !!rule.ignoreCase || (isRegExp(obj) && obj.ignoreCase);
+			const source = typeof obj === "string" ? reEscape(obj) : obj.source;
+			earlier.push({
+				regex: new RegExp(source, "y" + unicodeFlag + (ignoreCase ? "i" : "")),
+				rule,
+			});
+		}
+	}
+	return errors;
+}
+
+/**
+ * Whether a RegExp source has no anchors, word boundaries, lookarounds or backreferences, so that
+ * whether it matches at some index doesn't depend on the text around it
+ */
+function isContextFree(source: string) {
+	// Escapes and character classes are skipped, so their characters aren't mistaken for the others
+	const re = /(\\[bBk1-9]|[$^]|\(\?<?[=!])|\\.|\[(?:\\.|[^\]\\])*\]/g;
+	let match;
+	while ((match = re.exec(source)) !== null) {
+		if (match[1] !== undefined) return false;
+	}
+	return true;
+}
+
+function patternToString(pattern: Pattern, path: GrammarPath): string {
 	if (Array.isArray(pattern)) {
-		return pattern.map((x) => patternToString(x)).join("|");
+		return pattern.map((x) => patternToString(x, path)).join("|");
 	}
 
 	if (typeof pattern === "string") {
 		return reEscape(pattern);
 	} else if (isRegExp(pattern)) {
-		// TODO: consider /u support
-		if (pattern.ignoreCase) throw new Error("RegExp /i flag not allowed");
-		if (pattern.global) throw new Error("RegExp /g flag is implied");
-		if (pattern.sticky) throw new Error("RegExp /y flag is implied");
-		if (pattern.multiline) throw new Error("RegExp /m flag is implied");
+		const flagError = (message: string) => new GrammarError("INVALID_FLAG", message, path);
+		if (pattern.global) throw flagError("RegExp /g flag is implied");
+		if (pattern.sticky) throw flagError("RegExp /y flag is implied");
+		if (pattern.multiline) throw flagError("RegExp /m flag is implied");
 		return pattern.source;
 	} else {
-		throw new Error("Not a pattern: " + pattern);
+		throw new GrammarError("INVALID_PATTERN", "Not a pattern: " + pattern, path);
 	}
 }
 
+/**
+ * The flag enabling unicode-aware matching, if any
+ */
+type UnicodeFlag = "" | "u" | "v";
+
+function unicodeFlagOf(regexp: RegExp): UnicodeFlag {
+	return regexp.flags.includes("v") ? "v" : regexp.unicode ? "u" : "";
+}
+
+function ruleTypeName(rule: SimpleRule) {
+	return typeof rule.type === "string" ? rule.type : undefined;
+}
+
 function isRegExp(o: unknown): o is RegExp {
 	return o instanceof RegExp;
 }
@@ -139,12 +814,13 @@ function reCapture(s: string) {
 	return "(" + s + ")";
 }
 
+// Literals never end up in a character class, so "-" is left alone: "\\-" is invalid with /u
 function reEscape(s: string) {
-	return s.replace(/[-/\\^$*+?.()|[\]{}]/g, "\\$&");
+	return s.replace(/[/\\^$*+?.()|[\]{}]/g, "\\$&");
 }
 
-function reGroups(s: string) {
-	const re = new RegExp("|" + s); // Hack to make it match against ""
+function reGroups(s: string, flags = "") {
+	const re = new RegExp("|" + s, flags); // Hack to make it match against ""
 
 	return (re.exec("") as RegExpExecArray).length - 1;
 }
@@ -156,40 +832,96 @@ function reUnion(regexps: string[]) {
 
 export const states = function compileStates<const U extends string>(
 	states: LexicalModes<U>,
-	start?: NoInfer<U>,
+	start?: NoInfer<StateName<U>>,
+	options?: LexerOptions,
 ) {
-	// const all = states.$all ? compileRules(states.$all) : null;
-	// delete states.$all;
+	const all: StateRule<string>[] = states["$all" as U] ?? [];
 
-	const stateKeys = Object.getOwnPropertyNames(states) as U[];
+	const stateKeys = Object.getOwnPropertyNames(states).filter((key) => key !== "$all");
 	if (!start) {
 		if (stateKeys.length === 1) {
-			start = stateKeys[0];
+			start = stateKeys[0] as StateName<U>;
 		} else {
-			throw new Error("no start state provided");
+			throw new GrammarError("NO_START_STATE", "no start state provided");
+		}
+	}
+	if (!stateKeys.includes(start)) {
+		throw new GrammarError("MISSING_STATE", `Missing start state '${start}'`);
+	}
+
+	const ruleMap: Record<string, StateRule<string>[]> = Object.create(null);
+	for (const key of stateKeys) {
+		const rules: StateRule<string>[] | undefined = states[key as U];
+		if (!rules) {
+			throw new GrammarError("MISSING_RULES", `Missing rules for state ${key}`, { stateName: key });
+		}
+		ruleMap[key] = rules.concat(all);
+	}
+
+	// Splice included rules in place. Each state is included at most once, which handles cycles
+	for (const key of stateKeys) {
+		const rules = ruleMap[key] as StateRule<string>[];
+		const included = new Set([key]);
+		for (let j = 0; j < rules.length; j++) {
+			const rule = rules[j] as StateRule<string>;
+			if (!isIncludeRule(rule)) continue;
+
+			const newRules: StateRule<string>[] = [];
+			for (const name of Array.isArray(rule.include) ? rule.include : [rule.include]) {
+				if (included.has(name)) continue;
+				included.add(name);
+
+				const includedRules = ruleMap[name];
+				if (!includedRules) {
+					throw new GrammarError(
+						"MISSING_STATE",
+						`Cannot include nonexistent state '${name}' (in state '${key}')`,
+						{ stateName: key, ruleIndex: j },
+					);
+				}
+				for (const newRule of includedRules) {
+					if (rules.includes(newRule) || newRules.includes(newRule)) continue;
+					newRules.push(newRule);
+				}
+			}
+			rules.splice(j, 1, ...newRules);
+			// Included rules may include other states in turn
+			j--;
 		}
 	}
 
 	const lexerStates: LexerStates = Object.create(null);
 	for (const key of stateKeys) {
-		const rules = states[key];
-		if (!rules) throw new Error(`Missing rules for state ${key}`);
-		for (const rule of rules) {
+		const rules = ruleMap[key] as StateSwitchingRule<string>[];
+		for (const [ruleIndex, rule] of rules.entries()) {
+			const path = { stateName: key, ruleIndex, ruleType: ruleTypeName(rule) };
 			if (rule.next && !stateKeys.includes(rule.next)) {
-				throw new Error(`Missing state '${rule.next}' (in token '${rule.type}' of state '${key}')`);
+				throw new GrammarError(
+					"MISSING_STATE",
+					`Missing state '${rule.next}' (in token '${rule.type}' of state '${key}')`,
+					path,
+				);
 			}
 			if (rule.push && !stateKeys.includes(rule.push)) {
-				throw new Error(`Missing state '${rule.push}' (in token '${rule.type}' of state '${key}')`);
+				throw new GrammarError(
+					"MISSING_STATE",
+					`Missing state '${rule.push}' (in token '${rule.type}' of state '${key}')`,
+					path,
+				);
 			}
 			if (rule.pop && rule.pop !== 1) {
-				throw new Error(`pop must be 1 (in token '${rule.type}' of state '${key}')`);
+				throw new GrammarError(
+					"INVALID_POP",
+					`pop must be 1 (in token '${rule.type}' of state '${key}')`,
+					path,
+				);
 			}
 		}
-		const state = compileRules(rules, true);
+		const state = compileRules(rules, true, key, options);
 		lexerStates[key] = state;
 	}
 
-	return new Lexer(lexerStates, start as string);
+	return new Lexer(lexerStates, start as string, options);
 };
 
 export class Token {
@@ -208,7 +940,7 @@ export class Token {
 	 */
 	value: string;
 	/**
-	 * The number of bytes from the start of the buffer where the match starts.
+	 * The number of UTF-16 code units from the start of the data where the match starts.
 	 */
 	offset: number;
 	/**
@@ -216,7 +948,7 @@ export class Token {
 	 */
 	text: string;
 	/**
-	 * The number of line breaks found in the match. (Always zero if this rule has lineBreaks: false.)
+	 * The number of line breaks found in the match.
 	 */
 	lineBreaks: number;
 	/**
@@ -224,9 +956,27 @@ export class Token {
 	 */
 	line: number;
 	/**
-	 * The column where the match begins, starting from 1.
+	 * The column where the match begins, starting from 1. Counted in UTF-16 code units unless the
+	 * `columns` option says otherwise, so a character outside the Basic Multilingual Plane takes two
+	 * columns by default.
 	 */
 	col: number;
+	/**
+	 * The offset where the match ends, exclusive.
+	 */
+	endOffset: number;
+	/**
+	 * The line number where the match ends.
+	 */
+	endLine: number;
+	/**
+	 * The column where the match ends, exclusive: the column of the next token on the same line.
+	 */
+	endCol: number;
+	/**
+	 * The state the token was lexed in, with the state stack.
+	 */
+	frame: StateFrame;
 
 	constructor(options: {
 		type: string;
@@ -236,6 +986,10 @@ export class Token {
 		lineBreaks: number;
 		line: number;
 		col: number;
+		endOffset: number;
+		endLine: number;
+		endCol: number;
+		frame: StateFrame;
 	}) {
 		this.type = options.type;
 		this.value = options.value;
@@ -244,6 +998,10 @@ export class Token {
 		this.lineBreaks = options.lineBreaks;
 		this.line = options.line;
 		this.col = options.col;
+		this.endOffset = options.endOffset;
+		this.endLine = options.endLine;
+		this.endCol = options.endCol;
+		this.frame = options.frame;
 	}
 }
 
@@ -255,6 +1013,10 @@ export const NULL_TOKEN = new Token({
 	line: -1,
 	lineBreaks: -1,
 	offset: -1,
+	endOffset: -1,
+	endLine: -1,
+	endCol: -1,
+	frame: { stateName: "", stack: [] },
 });
 
 export class Lexer {
@@ -265,127 +1027,757 @@ export class Lexer {
 	stack: string[];
 	data = "";
 	index = 0;
+	line = 1;
+	col = 1;
+
+	// How lines and columns are counted
+	private options: LexerOptions;
+	private newlines: NewlinePolicy;
+	private matchNL: RegExp;
+	private columns: ColumnUnit;
+	private tabSize: number;
+
+	// Position of the beginning of the data, which differs from 1:1 when resuming from a snapshot
+	private firstLine = 1;
+	private firstCol = 1;
+
+	// Offset of the beginning of the data in the input, the data consumed so far being dropped when streaming
+	private base = 0;
+	// Whether more data may be fed
+	private streaming = false;
+	// Whether the data follows a CR, dropped when feeding data
+	private afterCR = false;
 
 	queuedText: string = "";
 	queuedRule: SimpleRule | null | undefined;
 
-	constructor(states: LexerStates, start: string) {
+	// The frame of the tokens lexed in the current state, created lazily
+	private frame: StateFrame | null = null;
+
+	// Lines of the data, indexed lazily for formatError() and kept up to date by relex()
+	private lineIndex: LineIndex | null = null;
+
+	// Tokens lexed ahead by peek(), with the position before each of them
+	private lookahead: PeekedToken[] = [];
+
+	// Marks which are neither rewound nor committed, from the oldest
+	private marks: MarkRecord[] = [];
+
+	// The matcher which produced the last match
+	private matcher: Matcher = {
+		regex: /(?!)/,
+		groups: [],
+		literals: new Map(),
+		dynamic: [],
+		dispatch: [],
+	};
+
+	constructor(states: LexerStates, start: string, options: LexerOptions = {}) {
+		this.options = options;
+		this.newlines = options.newlines ?? "lf";
+		this.matchNL = new RegExp(NEWLINES[this.newlines], "g");
+		this.columns = options.columns ?? "utf16";
+		this.tabSize = options.tabSize ?? 4;
+		if (!Number.isInteger(this.tabSize) || this.tabSize < 1) {
+			throw new GrammarError("INVALID_OPTION", `Invalid tab size ${this.tabSize}`);
+		}
+		if ((this.columns === "grapheme" || this.columns === "width") && !segmenter) {
+			throw new GrammarError(
+				"INVALID_OPTION",
+				`Counting ${this.columns} columns needs Intl.Segmenter`,
+			);
+		}
 		this.start = start;
 		this.states = states;
 		this.stateName = start;
 		const newState = this.states[start];
-		if (!newState) throw new Error(`Missing state ${start}`);
+		if (!newState) throw new GrammarError("MISSING_STATE", `Missing state ${start}`);
 		this.state = newState;
 		this.stack = [];
 		this.reset();
 	}
 
-	reset(data?: string) {
-		this.setState(this.start);
+	/**
+	 * Empty the internal buffer of the lexer, and set the line, column, and offset counts back to their initial value.
+	 *
+	 * When a snapshot is provided, the lexer resumes from it instead: `data` is expected to continue
+	 * the input where the saved lexer stopped.
+	 */
+	reset(data?: string, snapshot?: Partial<LexerSnapshot>) {
+		this.lookahead = [];
+		this.marks = [];
+		this._setState(snapshot?.stateName ?? this.start);
+		this.stack = snapshot?.stack ? snapshot.stack.slice() : [];
+		this.frame = null;
 		this.data = data ?? "";
 		this.index = 0;
-		this.queuedText = "";
+		this.base = snapshot?.offset ?? 0;
+		this.streaming = false;
+		this.afterCR = false;
+		this.line = this.firstLine = snapshot?.line ?? 1;
+		this.col = this.firstCol = snapshot?.col ?? 1;
+		this.queuedText = snapshot?.queuedText ?? "";
 		this.queuedRule = null;
+
+		const queued = snapshot?.queuedRule;
+		if (queued !== undefined && queued !== null) {
+			const rule = this.state.rules[queued];
+			if (!rule) {
+				throw this._error("UNKNOWN_RULE", `Missing rule ${queued} in state ${this.stateName}`, "");
+			}
+			this.queuedRule = rule;
+		}
 		return this;
 	}
 
-	next(): Token {
-		const index = this.index;
+	/**
+	 * Returns the current position, which you can later pass as the second argument
+	 * to reset() to explicitly control the internal state of the lexer.
+	 *
+	 * Peeked tokens are not part of the position: they will be lexed again after resuming.
+	 */
+	save(): LexerSnapshot {
+		const position = this.lookahead[0]?.position ?? this._position();
+		const state = this.states[position.stateName] ?? this.state;
+		return {
+			offset: position.offset,
+			line: position.line,
+			col: position.col,
+			stateName: position.stateName,
+			stack: position.stack.slice(),
+			queuedText: position.queuedText,
+			queuedRule: position.queuedRule ? state.rules.indexOf(position.queuedRule) : null,
+		};
+	}
 
-		// If a fallback token matched, we don't need to re-run the RegExp
-		if (this.queuedRule) {
-			const token = this._token(this.queuedRule, this.queuedText, index);
+	/**
+	 * Appends a chunk of input to the data. Until `end()` is called, tokens which reach the end of the
+	 * data are held back, since they might continue in the next chunk: `next()` returns `NULL_TOKEN`
+	 * instead. Unmatched data is only held back while it can start a match, fallback text being
+	 * returned up to the next possible match.
+	 *
+	 * The data consumed so far is dropped, except after the active marks, while token offsets and
+	 * positions carry on.
+	 */
+	feed(chunk: string) {
+		this._rewind();
+
+		// Tokens reaching the end of the data might continue in the chunk
+		const end = this.base + this.data.length;
+		if (this.queuedRule && this.index + this.queuedText.length === this.data.length) {
 			this.queuedRule = null;
 			this.queuedText = "";
-			return token;
-		}
-
-		const data = this.data;
-		const re = this.state.regex;
-		re.lastIndex = index;
-
-		if (index === data.length) {
-			return NULL_TOKEN; //EOF
 		}
-
-		const match = re.exec(data);
-
-		// Error tokens match the remaining of the data
-		const fallback = this.state.options.fallbackRule;
-		if (match === null) {
-			if (fallback) {
-				return this._token(fallback, data.slice(index, data.length), index);
+		for (const record of this.marks) {
+			const peeked = record.lookahead[0];
+			if (peeked) {
+				record.position = { ...peeked.position };
+				record.lookahead = [];
 			}
-			const error = this.state.options.errorRule;
-			if (error) {
-				return this._token(error, data.slice(index, data.length), index);
-			} else {
-				throw new Error("unmatched token");
+			const position = record.position;
+			if (position.queuedRule && position.offset + position.queuedText.length === end) {
+				position.queuedRule = null;
+				position.queuedText = "";
 			}
 		}
 
-		const text = match[0];
-		const rule = this._getRule(match);
+		const first = this.marks[0]?.position ?? this._position();
+		const start = first.offset - this.base;
+		if (start > 0) this.afterCR = this.data.charCodeAt(start - 1) === 13;
+		this.base = first.offset;
+		this.data = this.data.slice(start) + chunk;
+		this.index -= start;
+		this.firstLine = first.line;
+		this.firstCol = first.col;
+		this.streaming = true;
+		return this;
+	}
 
-		if (!rule) throw new Error(`rule not found for match '${text}'`);
+	/**
+	 * Signals the end of the input, so the remaining tokens can be returned.
+	 */
+	end() {
+		this.streaming = false;
+		return this;
+	}
 
-		if (fallback && match.index !== index) {
-			this.queuedText = text;
-			this.queuedRule = rule;
+	/**
+	 * Tokenizes a line of a document, with its line break, starting from the end state of the previous
+	 * line, or from the start of the document. Returns the tokens with the end state of the line.
+	 *
+	 * Like with `feed()`, the tokens reaching the end of a line are held back in the end state, and
+	 * returned with the next line they may continue on. The last line, without a line break, ends
+	 * the document: a document ending with a line break is followed by an empty last line. Lexing a
+	 * document line by line then gives the same tokens as lexing it at once, except that fallback
+	 * and error tokens end with their line. Invalid syntax is reported on its line.
+	 *
+	 * The end state can be compared with `stateName`, `stack` and `pendingText`, to re-lex the next
+	 * lines only when it changes.
+	 */
+	tokenizeLine(line: string, startState?: LineState): { tokens: Token[]; endState: LineState } {
+		this.reset((startState?.pendingText ?? "") + line, startState);
+		this.streaming = LINE_BREAKS[this.newlines].some((nl) => line.endsWith(nl));
+		const tokens = Array.from(this);
+		return { tokens, endState: { ...this.save(), pendingText: this.data.slice(this.index) } };
+	}
+
+	/**
+	 * Applies an edit to the data, and re-lexes the tokens it affects: from the token before the edit,
+	 * since a match can depend on the next characters, until a new token lines up with an old one,
+	 * shifted by the edit and lexed in the same state with the same stack. The following old tokens
+	 * are reused, with their positions shifted.
+	 *
+	 * The tokens must have been lexed from the data of the lexer. The lexer is left after the
+	 * re-lexed tokens, without peeked tokens or marks.
+	 *
+	 * Returns the new tokens and the range which changed: `deleteCount` old tokens from `start` were
+	 * replaced with `insertCount` new tokens.
+	 */
+	relex(tokens: Token[], edit: TextEdit) {
+		const { offset, length, text } = edit;
+		const editIndex = offset - this.base;
+		if (editIndex < 0 || length < 0 || editIndex + length > this.data.length) {
+			throw new RangeError(`Edit at offset ${offset} is out of bounds`);
+		}
+		const delta = text.length - length;
+
+		// Without a token before, re-lex from the beginning of the data
+		const before = firstTokenAt(tokens, offset) - 2;
+		const first = tokens[before];
+		const restart = first ? before : 0;
+		this.lookahead = [];
+		this.marks = [];
+		this.data = this.data.slice(0, editIndex) + text + this.data.slice(editIndex + length);
+		this.lineIndex?.edit({ offset: editIndex, length, text });
+		this._restore({
+			offset: first?.offset ?? this.base,
+			line: first?.line ?? this.firstLine,
+			col: first?.col ?? this.firstCol,
+			stateName: first?.frame.stateName ?? this.start,
+			stack: first?.frame.stack.slice() ?? [],
+			queuedText: "",
+			queuedRule: null,
+		});
+
+		// Old tokens from `restart` to `resync` are replaced with the new ones
+		const relexed: Token[] = [];
+		let resync = restart;
+		let shift: { line: number; col: number; fromLine: number } | null = null;
+		while (true) {
+			const position = this._position();
+			const token = this._lex();
+			if (token === NULL_TOKEN) {
+				resync = tokens.length;
+				break;
+			}
+			if (token.offset >= offset + text.length) {
+				resync = firstTokenAt(tokens, token.offset - delta, resync);
+				const old = tokens[resync];
+				if (
+					old &&
+					old.offset === token.offset - delta &&
+					sameFrame(old.frame, token.frame) &&
+					// Shifting columns would move tabs off their tab stops
+					(this.columns !== "width" || old.col === token.col)
+				) {
+					shift = { line: token.line - old.line, col: token.col - old.col, fromLine: old.line };
+					// The first reused token is lexed again by next()
+					this._restore(position);
+					break;
+				}
+			}
+			relexed.push(token);
+		}
+
+		// Leading tokens re-lexed without changes
+		let start = restart;
+		while (start < resync) {
+			const token = relexed[start - restart];
+			const old = tokens[start];
+			if (!token || !old || !sameToken(token, old)) break;
+			start++;
+		}
+		const inserted = relexed.slice(start - restart);
+
+		let rest = tokens.slice(resync);
+		if (shift && (delta !== 0 || shift.line !== 0 || shift.col !== 0)) {
+			const { line, col, fromLine } = shift;
+			rest = rest.map(
+				(token) =>
+					new Token({
+						...token,
+						offset: token.offset + delta,
+						line: token.line + line,
+						col: token.line === fromLine ? token.col + col : token.col,
+						endOffset: token.endOffset + delta,
+						endLine: token.endLine + line,
+						endCol: token.endLine === fromLine ? token.endCol + col : token.endCol,
+					}),
+			);
+		}
+
+		return {
+			tokens: tokens.slice(0, start).concat(inserted, rest),
+			start,
+			deleteCount: resync - start,
+			insertCount: inserted.length,
+		};
+	}
+
+	/**
+	 * Returns the next token, or `NULL_TOKEN` at the end of the data.
+	 */
+	next(): Token {
+		const peeked = this.lookahead.shift();
+		if (peeked) return peeked.token;
+		return this._lex();
+	}
+
+	/**
+	 * Returns the k-th next token without consuming it, or `NULL_TOKEN` if the data ends before.
+	 * `peek()` returns the token `next()` would.
+	 *
+	 * The tokens up to the k-th are lexed ahead, with the state transitions of their rules: a token
+	 * following a `push` is lexed in the pushed state. Changing the state manually discards them.
+	 */
+	peek(k = 1): Token {
+		if (!Number.isInteger(k) || k < 1) {
+			throw new RangeError(`Invalid lookahead ${k}`);
+		}
+		while (this.lookahead.length < k) {
+			const position = this._position();
+			const token = this._lex();
+			if (token === NULL_TOKEN) return NULL_TOKEN;
+			this.lookahead.push({ token, position });
+		}
+		return this.lookahead[k - 1]?.token ?? NULL_TOKEN;
+	}
+
+	/**
+	 * Returns a checkpoint of the current position, to try lexing ahead. The lexer can then go back
+	 * to the checkpoint with `rewind()`, or keep its position with `commit()`.
+	 *
+	 * Marks can be nested: rewinding or committing a mark also releases the marks taken after it.
+	 */
+	mark(): LexerMark {
+		const mark = {} as LexerMark;
+		this.marks.push({ mark, position: this._position(), lookahead: this.lookahead.slice() });
+		return mark;
+	}
+
+	/**
+	 * Goes back to the position of an active mark, with its state, stack and queued token.
+	 */
+	rewind(mark: LexerMark) {
+		const record = this._release(mark);
+		this._restore(record.position);
+		this.lookahead = record.lookahead;
+		return this;
+	}
+
+	/**
+	 * Releases an active mark, keeping the current position.
+	 */
+	commit(mark: LexerMark) {
+		this._release(mark);
+		return this;
+	}
+
+	private _release(mark: LexerMark) {
+		const index = this.marks.findIndex((record) => record.mark === mark);
+		const record = this.marks[index];
+		if (!record) {
+			throw this._error("UNKNOWN_MARK", "The mark was already rewound or committed", "");
+		}
+		this.marks.length = index;
+		return record;
+	}
+
+	private _lex(): Token {
+		const index = this.index;
+
+		// If a fallback token matched, we don't need to re-run the RegExp
+		if (this.queuedRule) {
+			const rule = this.queuedRule;
+			const token = this._token(rule, this.queuedText, index);
+			this.queuedRule = null;
+			this.queuedText = "";
+			return rule.option === "skip" ? this._lex() : token;
+		}
+
+		const data = this.data;
+
+		if (index === data.length) {
+			return NULL_TOKEN; //EOF
+		}
+
+		// Fast matching for single characters
+		const fastRule = this.state.fast?.[data.charCodeAt(index)];
+		if (fastRule) {
+			const token = this._token(fastRule, data.charAt(index), index);
+			return fastRule.option === "skip" ? this._lex() : token;
+		}
+
+		const match = this._match(index);
+
+		// Error tokens match the remaining of the data
+		const fallback = this.state.options.fallbackRule;
+		if (match === null) {
+			// Wait for a match in the next chunks, as long as the data left can start one
+			if (this.streaming) {
+				if (this._canContinue(index)) return NULL_TOKEN;
+				if (fallback) {
+					// Fallback text is released up to the next possible match, so a fallback token may be
+					// split between chunks
+					let end = index + 1;
+					while (end < data.length && !this._canContinue(end)) end++;
+					return this._token(fallback, data.slice(index, end), index);
+				}
+			}
+
+			if (fallback) {
+				return this._token(fallback, data.slice(index, data.length), index);
+			}
+			const error = this.state.options.errorRule;
+			if (error) {
+				return this._token(error, data.slice(index, data.length), index);
+			} else {
+				const text = data.slice(index, data.length);
+				const lexError = this._error(
+					"UNMATCHED_INPUT",
+					this.formatError(this.base + index, "invalid syntax"),
+					text,
+				);
+				// Seek to the end of the data, so the error is only thrown once
+				this.index = data.length;
+				throw lexError;
+			}
+		}
+
+		const { text, rule } = match;
+		const incomplete = this.streaming && match.index + text.length === data.length;
+
+		if (fallback && match.index !== index) {
+			if (!incomplete) {
+				this.queuedText = text;
+				this.queuedRule = rule;
+			}
 
 			// Fallback tokens contain the unmatched portion of the data
 			return this._token(fallback, data.slice(index, match.index), index);
 		}
 
-		if (rule?.option === "skip") {
-			this.index += text.length;
-			return this.next();
+		if (incomplete) return NULL_TOKEN;
+
+		if (rule.option === "skip") {
+			// Skipped tokens still move the position forward
+			this._token(rule, text, index);
+			return this._lex();
 		}
 
 		return this._token(rule, text, index);
 	}
 
+	/**
+	 * Whether the data from an index is the beginning of a match of the current state, which the next
+	 * chunks may complete. When the rules cannot be analysed, only the data near its end is.
+	 */
+	private _canContinue(index: number) {
+		const data = this.data;
+		if (this.state.prefixes === undefined) this.state.prefixes = prefixesOf(this.state);
+		const prefixes = this.state.prefixes;
+		if (prefixes === null) return data.length - index <= HOLDBACK_LIMIT;
+
+		const { nfa, flag } = prefixes;
+		let states = closure(nfa, [nfa.start]);
+		for (let i = index; i < data.length && states.length > 0;) {
+			const code = (flag ? data.codePointAt(i) : data.charCodeAt(i)) as number;
+			i += code > 0xffff ? 2 : 1;
+			const next: number[] = [];
+			for (const state of states) {
+				for (const [chars, target] of nfa.moves[state] as [CharSet, number][]) {
+					if (intersect(chars, [[code, code]]).length > 0) next.push(target);
+				}
+			}
+			states = closure(nfa, next);
+		}
+		return states.length > 0;
+	}
+
+	/**
+	 * Finds the leftmost match of the current state, and the rule winning it
+	 */
+	private _match(index: number): Match | null {
+		const longest = this.state.longest;
+		// Without a fallback rule, only the current index can match
+		if (longest && !this.state.options.fallbackRule) return this._longest(longest, index);
+
+		const match = this._exec(index);
+		if (match === null) return null;
+		if (longest) return this._longest(longest, match.index);
+		return { index: match.index, text: match[0], rule: this._getRule(match) };
+	}
+
+	/**
+	 * Tries every alternative at an index, keeping the longest match and the first rule on ties
+	 */
+	private _longest({ literals, regexes, dispatch }: LongestMatcher, index: number): Match | null {
+		const data = this.data;
+		let best: Alternative | null = null;
+
+		const bucket = literals.get(data.charCodeAt(index));
+		if (bucket) {
+			for (const literal of bucket) {
+				if (data.startsWith(literal.text, index)) {
+					best = literal;
+					break;
+				}
+				// A longer literal may be completed by the next chunk: match the rest of the data so the
+				// token is held back
+				if (
+					this.streaming &&
+					literal.text.length > data.length - index &&
+					literal.text.startsWith(data.slice(index))
+				) {
+					return { index, text: data.slice(index), rule: literal.rule };
+				}
+			}
+		}
+
+		let text = best?.text ?? "";
+		for (const alternative of dispatch[data.charCodeAt(index)] ?? regexes) {
+			const re = alternative.regex;
+			re.lastIndex = index;
+			const match = re.exec(data);
+			if (match === null) continue;
+			const length = match[0].length;
+			if (
+				length > text.length ||
+				(length === text.length && alternative.order < (best as Alternative).order)
+			) {
+				best = alternative;
+				text = match[0];
+			}
+		}
+
+		return best && { index, text, rule: best.rule };
+	}
+
+	/**
+	 * Runs the matchers of the current state, keeping the first of the leftmost matches
+	 */
+	private _exec(index: number) {
+		const data = this.data;
+		const matchers = this.state.matchers;
+		const sticky = !this.state.options.fallbackRule;
+		let best: RegExpExecArray | null = null;
+
+		for (const matcher of matchers) {
+			const re = matcher.regex;
+			re.lastIndex = index;
+			const match = re.exec(data);
+			if (match !== null && (best === null || match.index < best.index)) {
+				best = match;
+				this.matcher = matcher;
+				if (sticky || match.index === index) break;
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Finds the rule of a match without scanning every capture group: when the text is a literal of
+	 * some group, only the groups with RegExps before it could have matched instead, and only the
+	 * groups which can start with its first character.
+	 */
 	private _getRule(match: RegExpExecArray) {
-		const groupTypes = this.state.rules.length;
-		for (let i = 0; i < groupTypes; i++) {
+		const { groups, literals, dynamic, dispatch } = this.matcher;
+		const literal = literals.get(match[0]);
+		const limit = literal ?? groups.length;
+		const candidates = dispatch[match[0].charCodeAt(0)] ?? dynamic;
+
+		const candidateCount = candidates.length;
+		for (let j = 0; j < candidateCount; j++) {
+			const i = candidates[j] as number;
+			if (i >= limit) break;
 			if (match[i + 1] !== undefined) {
-				return this.state.rules[i];
+				return groups[i] as SimpleRule;
 			}
 		}
-		throw new Error("Cannot find token type for matched text");
+		if (literal !== undefined) {
+			return groups[literal] as SimpleRule;
+		}
+		throw this._error(
+			"UNKNOWN_RULE",
+			`Cannot find token type for matched text '${match[0]}'`,
+			match[0],
+		);
+	}
+
+	private _error(code: LexErrorCode, message: string, text: string) {
+		const expected: string[] = [];
+		for (const rule of this.state.rules) {
+			if (rule.match && typeof rule.type === "string") expected.push(rule.type);
+		}
+		return new LexError(code, message, {
+			offset: this.base + this.index,
+			line: this.line,
+			col: this.col,
+			stateName: this.stateName,
+			stateStack: this.stack.slice(),
+			text,
+			expected,
+		});
 	}
 
-	private _token(rule: SimpleRule | StateSwitchingRule<string>, text: string, offset: number) {
+	private _token(rule: SimpleRule | StateSwitchingRule<string>, text: string, index: number) {
+		// count line breaks, which only fallback and error tokens and the rules declaring them contain
+		let lineBreaks = 0;
+		let nl = 1;
+		const counted = rule.lineBreaks || rule.option === "fallback" || rule.option === "error";
+		if (!counted) {
+			// no line breaks
+		} else if (this.newlines === "lf") {
+			if (text === "\n") {
+				lineBreaks = 1;
+			} else if (text.indexOf("\n") !== -1) {
+				const matchNL = /\n/g;
+				while (matchNL.exec(text)) {
+					lineBreaks++;
+					nl = matchNL.lastIndex;
+				}
+			}
+		} else {
+			const matchNL = this.matchNL;
+			matchNL.lastIndex = 0;
+			while (matchNL.exec(text)) {
+				lineBreaks++;
+				nl = matchNL.lastIndex;
+			}
+		}
+		const breaksLine = lineBreaks !== 0;
+		// The LF of a CRLF split between two tokens is not a line break of its own
+		if (
+			counted &&
+			this.newlines !== "lf" &&
+			text.charCodeAt(0) === 10 &&
+			(index > 0 ? this.data.charCodeAt(index - 1) === 13 : this.afterCR)
+		) {
+			lineBreaks--;
+		}
+
+		const line = this.line;
+		const col = this.col;
+		const size = text.length;
+		this.index += size;
+		this.line += lineBreaks;
+		if (this.columns === "utf16") {
+			this.col = breaksLine ? size - nl + 1 : this.col + size;
+		} else {
+			this.col = breaksLine ? this._advance(1, text.slice(nl)) : this._advance(col, text);
+		}
+
 		const token = new Token({
 			type: typeof rule.type === "function" ? rule.type(text) : rule.type,
 			text,
 			value: typeof rule.value === "function" ? rule.value(text) : text,
-			offset,
-			line: -1,
-			col: -1,
-			lineBreaks: -1,
+			offset: this.base + index,
+			line,
+			col,
+			endOffset: this.base + this.index,
+			endLine: this.line,
+			endCol: this.col,
+			lineBreaks,
+			frame: (this.frame ??= { stateName: this.stateName, stack: this.stack.slice() }),
 		});
 
-		this.index += text.length;
-
 		if (isStateSwitchingRule(rule)) {
-			if (rule.pop) this.popState();
-			else if (rule.next) this.setState(rule.next);
-			else if (rule.push) this.pushState(rule.push);
+			if (rule.pop) this._popState();
+			else if (rule.next) this._setState(rule.next);
+			else if (rule.push) this._pushState(rule.push);
 		}
 
 		return token;
 	}
 
+	/**
+	 * Returns the column after some text without line breaks, starting at a column
+	 */
+	private _advance(col: number, text: string) {
+		switch (this.columns) {
+			case "utf16":
+				return col + text.length;
+			case "codepoint":
+				for (let i = 0; i < text.length; i++) {
+					if (!isLowSurrogate(text.charCodeAt(i))) col++;
+				}
+				return col;
+			case "grapheme":
+				for (const _ of graphemes(text)) col++;
+				return col;
+			case "width":
+				for (const grapheme of graphemes(text)) {
+					col =
+						grapheme === "\t"
+							? col + this.tabSize - ((col - 1) % this.tabSize)
+							: col + graphemeWidth(grapheme);
+				}
+				return col;
+		}
+	}
+
+	/**
+	 * Replaces the tabs of a line starting at a column with spaces up to the next tab stops
+	 */
+	private _expandTabs(text: string, col: number) {
+		return text.replace(/[^\t]*\t/g, (chunk) => {
+			const before = chunk.slice(0, -1);
+			const tabCol = this._advance(col, before);
+			col = this._advance(tabCol, "\t");
+			return before + " ".repeat(col - tabCol);
+		});
+	}
+
+	private _position(): LexerPosition {
+		return {
+			offset: this.base + this.index,
+			line: this.line,
+			col: this.col,
+			stateName: this.stateName,
+			stack: this.stack.slice(),
+			queuedText: this.queuedText,
+			queuedRule: this.queuedRule,
+		};
+	}
+
+	/**
+	 * Moves back before the tokens lexed ahead, discarding them
+	 */
+	private _rewind() {
+		const position = this.lookahead[0]?.position;
+		if (!position) return;
+
+		this.lookahead = [];
+		this._restore(position);
+	}
+
+	private _restore(position: LexerPosition) {
+		this.index = position.offset - this.base;
+		this.line = position.line;
+		this.col = position.col;
+		this._setState(position.stateName);
+		this.stack = position.stack.slice();
+		this.frame = null;
+		this.queuedText = position.queuedText;
+		this.queuedRule = position.queuedRule;
+	}
+
 	/**
 	 * Transitions to the provided state. Does not push onto the state stack.
 	 */
 	setState(stateName: string) {
-		if (this.stateName === stateName) return;
-		this.stateName = stateName;
-		const newState = this.states[stateName];
-		if (!newState) throw new Error(`Missing state ${stateName}`);
-		this.state = newState;
+		this._rewind();
+		this._setState(stateName);
 	}
 
 	/**
@@ -393,22 +1785,147 @@ export class Lexer {
 	 * stack.
 	 */
 	pushState(stateName: string) {
-		this.stack.push(this.stateName);
-		this.setState(stateName);
+		this._rewind();
+		this._pushState(stateName);
 	}
 
 	/**
 	 * Returns back to the previous state in the stack.
 	 */
 	popState() {
+		this._rewind();
+		this._popState();
+	}
+
+	private _setState(stateName: string) {
+		if (this.stateName === stateName) return;
+		this.frame = null;
+		this.stateName = stateName;
+		const newState = this.states[stateName];
+		if (!newState) throw this._error("UNKNOWN_STATE", `Missing state ${stateName}`, "");
+		this.state = newState;
+	}
+
+	private _pushState(stateName: string) {
+		this.frame = null;
+		this.stack.push(this.stateName);
+		this._setState(stateName);
+	}
+
+	private _popState() {
+		this.frame = null;
 		const last = this.stack.pop();
 		if (last) {
-			this.setState(last);
+			this._setState(last);
+		}
+	}
+
+	/**
+	 * Returns a string with a pretty error message, showing the surrounding lines of the data.
+	 *
+	 * The location can be a token, `NULL_TOKEN` for the current position (typically EOF), or an offset
+	 * from the start of the input, which must not have been dropped by `feed()`. Tokens spanning
+	 * several lines are underlined from start to end.
+	 */
+	formatError(location: Token | number, message = "", options: FormatErrorOptions = {}) {
+		const contextLines = options.contextLines ?? 2;
+		const data = this.data;
+
+		let start: number;
+		let end: number;
+		if (typeof location === "number") {
+			start = end = location - this.base;
+		} else if (location === NULL_TOKEN) {
+			const position = this.lookahead[0]?.position;
+			start = end = position ? position.offset - this.base : this.index;
+		} else {
+			start = location.offset - this.base;
+			end = start + location.text.length;
+		}
+		if (start < 0 || end > data.length) {
+			throw new RangeError(`Offset ${this.base + start} is out of bounds`);
+		}
+
+		// Lines are counted from 1 in the data, which starts at `firstLine`
+		if (this.lineIndex?.text !== data) this.lineIndex = new LineIndex(data, this.newlines);
+		const lines = this.lineIndex;
+		const startLine = lines.lineAt(start);
+		const startCol = start - lines.lineStart(startLine);
+		// The underline ends on the last character of the token
+		const endLine = end > start ? lines.lineAt(end - 1) : startLine;
+		const endCol = end > start ? end - 1 - lines.lineStart(endLine) : startCol;
+
+		const firstDisplayedLine = Math.max(startLine - contextLines, 1);
+		const lastDisplayedLine = Math.min(endLine + contextLines, lines.lineCount);
+		const lastLineDigits = String(this.firstLine + lastDisplayedLine - 1).length;
+		const gutter = lastLineDigits + 2;
+
+		// Carets and underlines are aligned in the columns of the lexer, from the column of the line
+		const firstColOf = (line: number) => (line === 1 ? this.firstCol : 1);
+		const span = (text: string, line: number) =>
+			this._advance(firstColOf(line), text) - firstColOf(line);
+		const startSpan = span(lines.lineText(startLine).slice(0, startCol), startLine);
+
+		const line = this.firstLine + startLine - 1;
+		const col = firstColOf(startLine) + startSpan;
+		const errorLines = [message + " at line " + line + " col " + col + ":", ""];
+		for (let i = firstDisplayedLine; i <= lastDisplayedLine; i++) {
+			const text = lines.lineText(i);
+			const displayed = this.columns === "width" ? this._expandTabs(text, firstColOf(i)) : text;
+			errorLines.push(pad(String(this.firstLine + i - 1), lastLineDigits) + "  " + displayed);
+			if (i < startLine || i > endLine) continue;
+
+			if (startLine === endLine) {
+				errorLines.push(pad("", gutter + startSpan) + "^");
+			} else if (i === startLine) {
+				const rest = Math.max(span(text, i) - startSpan - 1, 0);
+				errorLines.push(pad("", gutter + startSpan) + "^" + "~".repeat(rest));
+			} else if (i === endLine) {
+				errorLines.push(pad("", gutter) + "~".repeat(span(text.slice(0, endCol), i)) + "^");
+			} else if (text.length > 0) {
+				errorLines.push(pad("", gutter) + "~".repeat(span(text, i)));
+			}
 		}
+		return errorLines.join("\n");
 	}
 
+	/**
+	 * Returns a new lexer with the same grammar, without any data.
+	 *
+	 * @deprecated Use `fork()` to copy the lexer at its position, or `reset()` the returned lexer.
+	 */
 	clone() {
-		return new Lexer(this.states, this.stateName);
+		return new Lexer(this.states, this.start, this.options);
+	}
+
+	/**
+	 * Returns an independent lexer at exactly the same position: data, state and stack, queued
+	 * fallback token, peeked tokens and active marks. The compiled grammar is shared.
+	 */
+	fork() {
+		const fork = new Lexer(this.states, this.start, this.options);
+		fork.data = this.data;
+		fork.index = this.index;
+		fork.line = this.line;
+		fork.col = this.col;
+		fork.firstLine = this.firstLine;
+		fork.firstCol = this.firstCol;
+		fork.base = this.base;
+		fork.streaming = this.streaming;
+		fork.afterCR = this.afterCR;
+		fork._setState(this.stateName);
+		fork.stack = this.stack.slice();
+		fork.frame = this.frame;
+		fork.queuedText = this.queuedText;
+		fork.queuedRule = this.queuedRule;
+		fork.lookahead = this.lookahead.slice();
+		// Marks are updated in place when feeding data
+		fork.marks = this.marks.map(({ mark, position, lookahead }) => ({
+			mark,
+			position: { ...position },
+			lookahead: lookahead.slice(),
+		}));
+		return fork;
 	}
 
 	*[Symbol.iterator]() {
@@ -418,6 +1935,1219 @@ export class Lexer {
 			next = this.next();
 		}
 	}
+
+	/**
+	 * Resets the lexer and tokenizes a stream as its chunks arrive, with `feed()` and `end()`.
+	 *
+	 * The stream can be a Node `Readable`, a web `ReadableStream` or any async iterable, of strings or
+	 * of UTF-8 bytes.
+	 */
+	async *tokenizeStream(stream: TextStream) {
+		const decoder = new TextDecoder();
+		this.reset();
+
+		for await (const chunk of chunksOf(stream)) {
+			this.feed(typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true }));
+			yield* this;
+		}
+
+		this.feed(decoder.decode()).end();
+		yield* this;
+	}
+}
+
+/**
+ * Converts between offsets in a text and positions, lines and columns starting from 1.
+ */
+export class LineIndex {
+	text: string;
+	newlines: NewlinePolicy;
+	// Offsets where each line starts
+	private lineStarts: number[];
+
+	constructor(text: string, newlines: NewlinePolicy = "lf") {
+		this.text = text;
+		this.newlines = newlines;
+		this.lineStarts = [0, ...lineBreaksOf(text, 0, newlines)];
+	}
+
+	get lineCount() {
+		return this.lineStarts.length;
+	}
+
+	/**
+	 * Returns the line of an offset.
+	 */
+	lineAt(offset: number) {
+		if (offset < 0 || offset > this.text.length) {
+			throw new RangeError(`Offset ${offset} is out of bounds`);
+		}
+		return upperBound(this.lineStarts, offset);
+	}
+
+	/**
+	 * Returns the offset where a line starts.
+	 */
+	lineStart(line: number) {
+		const start = this.lineStarts[line - 1];
+		if (start === undefined) {
+			throw new RangeError(`Line ${line} is out of bounds`);
+		}
+		return start;
+	}
+
+	/**
+	 * Returns the offset where a line ends, before its line break.
+	 */
+	lineEnd(line: number) {
+		const next = this.lineStarts[line];
+		if (next === undefined) return this.text.length;
+		const crlf = this.newlines !== "lf" && this.text.startsWith("\r\n", next - 2);
+		return crlf && next - 2 >= this.lineStart(line) ? next - 2 : next - 1;
+	}
+
+	/**
+	 * Returns the text of a line, without its line break.
+	 */
+	lineText(line: number) {
+		return this.text.slice(this.lineStart(line), this.lineEnd(line));
+	}
+
+	/**
+	 * Returns the line and column of an offset.
+	 */
+	positionAt(offset: number, encoding: PositionEncoding = "utf16") {
+		const line = this.lineAt(offset);
+		const start = this.lineStart(line);
+		let col = offset - start + 1;
+		if (encoding !== "utf16") {
+			col = 1;
+			for (let i = start; i < offset; i++) {
+				const code = this.text.codePointAt(i) as number;
+				col += encoding === "utf8" ? utf8Length(code) : 1;
+				if (code > 0xffff) i++;
+			}
+		}
+		return { line, col };
+	}
+
+	/**
+	 * Returns the offset of a line and column. Columns past the end of the line are clamped to it, and
+	 * columns inside a character to its start.
+	 */
+	offsetAt(line: number, col: number, encoding: PositionEncoding = "utf16") {
+		const start = this.lineStart(line);
+		const end = this.lineEnd(line);
+		if (encoding === "utf16") {
+			return Math.min(start + Math.max(col - 1, 0), end);
+		}
+
+		let offset = start;
+		let current = 1;
+		while (offset < end) {
+			const code = this.text.codePointAt(offset) as number;
+			current += encoding === "utf8" ? utf8Length(code) : 1;
+			if (current > col) break;
+			offset += code > 0xffff ? 2 : 1;
+		}
+		return offset;
+	}
+
+	/**
+	 * Applies an edit to the text, updating the lines it affects only.
+	 */
+	edit(edit: TextEdit) {
+		const { offset, length, text } = edit;
+		if (offset < 0 || length < 0 || offset + length > this.text.length) {
+			throw new RangeError(`Edit at offset ${offset} is out of bounds`);
+		}
+		const delta = text.length - length;
+		const end = offset + text.length;
+		this.text = this.text.slice(0, offset) + text + this.text.slice(offset + length);
+
+		// Line starts after the edit are shifted, and the ones inside are replaced. The characters
+		// around the edit are scanned again, since a CR before it and a LF after it make a CRLF.
+		const from = upperBound(this.lineStarts, Math.max(offset - 1, 0));
+		const to = upperBound(this.lineStarts, offset + length + 1);
+		for (let i = to; i < this.lineStarts.length; i++) {
+			this.lineStarts[i] = (this.lineStarts[i] as number) + delta;
+		}
+		const around = Math.max(offset - 1, 0);
+		const starts = lineBreaksOf(this.text.slice(around, end + 2), around, this.newlines);
+		this.lineStarts.splice(
+			from,
+			to - from,
+			...starts.filter((start) => start >= offset && start <= end + 1),
+		);
+		return this;
+	}
+}
+
+/**
+ * Reports the problems of a grammar which lexing a few inputs may not reveal: rules which can never
+ * match since earlier rules always win, rules which can match the same text as an earlier rule,
+ * states which cannot be reached from the start state, and pushed states which cannot pop.
+ *
+ * RegExps with anchors, word boundaries, lookarounds, backreferences or Unicode property escapes
+ * depend on more than the text they match, and are left out of the analysis.
+ */
+export function analyze(lexer: Lexer): GrammarIssue[] {
+	const issues: GrammarIssue[] = [];
+	for (const stateName of Object.getOwnPropertyNames(lexer.states)) {
+		issues.push(...analyzeRules(stateName, lexer.states[stateName] as LexerState));
+	}
+	issues.push(...analyzeStates(lexer.states, lexer.start));
+	return issues;
+}
+
+function analyzeRules(stateName: string, state: LexerState): GrammarIssue[] {
+	const issues: GrammarIssue[] = [];
+	const longest = state.longest !== null;
+	// The unicode flag is the same for every RegExp of the state
+	const regexp = state.rules
+		.flatMap((rule) => (Array.isArray(rule.match) ? rule.match : [rule.match]))
+		.find(isRegExp);
+	const flag = regexp ? unicodeFlagOf(regexp) : "";
+
+	// The rules which can be analysed, with the texts they match
+	const analysed: { ruleIndex: number; rule: SimpleRule; node: RegexNode; nfa: Nfa }[] = [];
+	for (const [ruleIndex, rule] of state.rules.entries()) {
+		const node = rule.match ? parseRule(rule, flag) : null;
+		const nfa = node && attempt(() => toNfa(node));
+		if (!node || !nfa) continue;
+
+		const ruleType = ruleTypeName(rule);
+		const path = { stateName, ruleIndex, ruleType };
+
+		if (analysed.length > 0) {
+			const nodes = analysed.map((other) => other.node);
+			const surviving = attempt(() =>
+				survivingText(nfa, toNfa({ kind: "alternation", nodes }), !longest),
+			);
+			if (surviving === null) {
+				issues.push({
+					code: "DEAD_RULE",
+					message: `Rule '${ruleType}' in state '${stateName}' can never match, since earlier rules always win`,
+					...path,
+				});
+				analysed.push({ ruleIndex, rule, node, nfa });
+				continue;
+			}
+		}
+
+		for (const other of analysed) {
+			const witness = attempt(() => commonText(other.nfa, nfa));
+			if (witness === null || witness === undefined) continue;
+			issues.push({
+				code: "OVERLAP",
+				message: `Rules '${ruleTypeName(other.rule)}' and '${ruleType}' in state '${stateName}' can both match '${witness}'`,
+				...path,
+				otherRuleIndex: other.ruleIndex,
+				witness,
+			});
+		}
+		analysed.push({ ruleIndex, rule, node, nfa });
+	}
+	return issues;
+}
+
+function analyzeStates(states: LexerStates, start: string): GrammarIssue[] {
+	const issues: GrammarIssue[] = [];
+	const stateNames = Object.getOwnPropertyNames(states);
+	const rulesOf = (stateName: string) =>
+		(states[stateName] as LexerState).rules as StateSwitchingRule<string>[];
+
+	const reached = new Set([start]);
+	for (const stateName of reached) {
+		for (const rule of rulesOf(stateName)) {
+			if (rule.next) reached.add(rule.next);
+			if (rule.push) reached.add(rule.push);
+		}
+	}
+	for (const stateName of stateNames) {
+		if (reached.has(stateName)) continue;
+		issues.push({
+			code: "UNREACHABLE_STATE",
+			message: `State '${stateName}' cannot be reached from the start state '${start}'`,
+			stateName,
+		});
+	}
+
+	// A pushed state pops, or moves to another state which does. Pushing again returns to it
+	const pushed = new Set(
+		stateNames.flatMap((stateName) => rulesOf(stateName).map((rule) => rule.push)),
+	);
+	for (const stateName of stateNames) {
+		if (!pushed.has(stateName)) continue;
+		const moves = new Set([stateName]);
+		let pops = false;
+		for (const name of moves) {
+			for (const rule of rulesOf(name)) {
+				if (rule.pop) pops = true;
+				if (rule.next) moves.add(rule.next);
+			}
+		}
+		if (pops) continue;
+		issues.push({
+			code: "NO_POP",
+			message: `State '${stateName}' is pushed but cannot pop`,
+			stateName,
+		});
+	}
+	return issues;
+}
+
+// Runs an analysis, which gives up on the grammars too large for it
+function attempt<T>(analysis: () => T): T | undefined {
+	try {
+		return analysis();
+	} catch {
+		return undefined;
+	}
+}
+
+// A set of characters, as sorted and disjoint ranges of char codes, or code points in unicode mode
+type CharSet = [number, number][];
+
+// The syntax tree of a RegExp, with the characters of case-insensitive matches already folded
+type RegexNode =
+	| { kind: "chars"; chars: CharSet }
+	| { kind: "sequence"; nodes: RegexNode[] }
+	| { kind: "alternation"; nodes: RegexNode[] }
+	| { kind: "repeat"; node: RegexNode; min: number; max: number };
+
+// An automaton with a single accepting state, moving on sets of characters or on nothing
+type Nfa = {
+	start: number;
+	accept: number;
+	epsilon: number[][];
+	moves: [CharSet, number][][];
+};
+
+// The largest automata and searches which are analysed
+const ANALYSIS_LIMIT = 20000;
+
+// The unmatched streamed data held back for the next chunks, when the rules cannot be analysed
+const HOLDBACK_LIMIT = 0x10000;
+
+const DIGIT: CharSet = [[0x30, 0x39]];
+const WORD: CharSet = [
+	[0x30, 0x39],
+	[0x41, 0x5a],
+	[0x5f, 0x5f],
+	[0x61, 0x7a],
+];
+const SPACE: CharSet = [
+	[0x09, 0x0d],
+	[0x20, 0x20],
+	[0xa0, 0xa0],
+	[0x1680, 0x1680],
+	[0x2000, 0x200a],
+	[0x2028, 0x2029],
+	[0x202f, 0x202f],
+	[0x205f, 0x205f],
+	[0x3000, 0x3000],
+	[0xfeff, 0xfeff],
+];
+const LINE_TERMINATORS: CharSet = [
+	[0x0a, 0x0a],
+	[0x0d, 0x0d],
+	[0x2028, 0x2029],
+];
+
+/**
+ * Parses the alternatives of a rule, or returns null if one of them cannot be analysed
+ */
+function parseRule(rule: SimpleRule, flag: UnicodeFlag, assertions = false): RegexNode | null {
+	const nodes: RegexNode[] = [];
+	for (const obj of Array.isArray(rule.match) ? rule.match : [rule.match]) {
+		const ignoreCase = !!rule.ignoreCase || (isRegExp(obj) && obj.ignoreCase);
+		const dotAll = isRegExp(obj) && obj.dotAll;
+		const source = typeof obj === "string" ? reEscape(obj) : (obj as RegExp).source;
+		try {
+			nodes.push(parseRegExp(source, flag, ignoreCase, dotAll, assertions));
+		} catch {
+			return null;
+		}
+	}
+	return { kind: "alternation", nodes };
+}
+
+/**
+ * Builds the automaton of the prefixes of the matches of a state, or returns null if one of its rules
+ * cannot be analysed. Assertions are taken as always passing, so it accepts more than the rules.
+ */
+function prefixesOf(state: LexerState): Prefixes | null {
+	let flag: UnicodeFlag = "";
+	for (const rule of state.rules) {
+		for (const obj of Array.isArray(rule.match) ? rule.match : [rule.match]) {
+			if (isRegExp(obj)) flag = unicodeFlagOf(obj);
+		}
+	}
+	const nodes: RegexNode[] = [];
+	for (const rule of state.rules) {
+		if (!rule.match) continue;
+		const node = parseRule(rule, flag, true);
+		if (!node) return null;
+		nodes.push(node);
+	}
+	const nfa = attempt(() => toNfa({ kind: "alternation", nodes }));
+	return nfa ? { nfa, flag } : null;
+}
+
+/**
+ * Whether a rule can match a line break anywhere in its matches, or null if its pattern cannot be
+ * analysed
+ */
+function matchesLineBreak(rule: SimpleRule, flag: UnicodeFlag, newlines: NewlinePolicy) {
+	const node = parseRule(rule, flag, true);
+	if (!node) return null;
+
+	const lineBreaks = LINE_BREAKS[newlines]
+		.map((nl): [number, number] => [nl.charCodeAt(0), nl.charCodeAt(0)])
+		.sort((a, b) => a[0] - b[0]);
+	const visit = (node: RegexNode): boolean => {
+		switch (node.kind) {
+			case "chars":
+				return intersect(node.chars, lineBreaks).length > 0;
+			case "sequence":
+			case "alternation":
+				return node.nodes.some(visit);
+			case "repeat":
+				return node.max > 0 && visit(node.node);
+		}
+	};
+	return visit(node);
+}
+
+/**
+ * Parses the subset of the RegExp syntax matching regardless of the surrounding text. With
+ * `assertions`, anchors, word boundaries and lookarounds are parsed as matching the empty string.
+ */
+function parseRegExp(
+	source: string,
+	flag: UnicodeFlag,
+	ignoreCase: boolean,
+	dotAll: boolean,
+	assertions = false,
+): RegexNode {
+	const max = flag ? 0x10ffff : 0xffff;
+	const empty: RegexNode = { kind: "sequence", nodes: [] };
+	let i = 0;
+
+	const fail = (): never => {
+		throw new Error(`Cannot analyse /${source}/`);
+	};
+
+	const codeAt = (index: number) =>
+		(flag ? source.codePointAt(index) : source.charCodeAt(index)) as number;
+
+	const chars = (set: CharSet): RegexNode => ({
+		kind: "chars",
+		chars: ignoreCase ? foldCase(set) : set,
+	});
+
+	const alternation = (): RegexNode => {
+		const nodes = [sequence()];
+		while (source[i] === "|") {
+			i++;
+			nodes.push(sequence());
+		}
+		return nodes.length === 1 ? (nodes[0] as RegexNode) : { kind: "alternation", nodes };
+	};
+
+	const sequence = (): RegexNode => {
+		const nodes: RegexNode[] = [];
+		while (i < source.length && source[i] !== "|" && source[i] !== ")") {
+			nodes.push(quantified(atom()));
+		}
+		return { kind: "sequence", nodes };
+	};
+
+	const quantified = (node: RegexNode): RegexNode => {
+		let min: number;
+		let most: number;
+		const c = source[i];
+		if (c === "*" || c === "+" || c === "?") {
+			min = c === "+" ? 1 : 0;
+			most = c === "?" ? 1 : Infinity;
+			i++;
+		} else if (c === "{") {
+			const bounds = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i));
+			if (!bounds) return node;
+			min = Number(bounds[1]);
+			most = bounds[2] === undefined ? min : bounds[3] ? Number(bounds[3]) : Infinity;
+			i += bounds[0].length;
+		} else {
+			return node;
+		}
+		// Lazy quantifiers match the same texts
+		if (source[i] === "?") i++;
+		if (min > 100 || (most !== Infinity && most > 100)) fail();
+		return { kind: "repeat", node, min, max: most };
+	};
+
+	const atom = (): RegexNode => {
+		const c = source[i];
+		switch (c) {
+			case "(": {
+				i++;
+				if (source.startsWith("?:", i)) {
+					i += 2;
+				} else if (source.startsWith("?<", i) && !/[=!]/.test(source[i + 2] ?? "")) {
+					i = source.indexOf(">", i) + 1;
+				} else if (source[i] === "?") {
+					const lookaround = /^\?<?[=!]/.exec(source.slice(i));
+					if (!assertions || !lookaround) fail();
+					i += (lookaround as RegExpExecArray)[0].length;
+					alternation();
+					if (source[i] !== ")") fail();
+					i++;
+					return empty;
+				}
+				const node = alternation();
+				if (source[i] !== ")") fail();
+				i++;
+				return node;
+			}
+			case "[":
+				return chars(charClass());
+			case ".":
+				i++;
+				return chars(dotAll ? [[0, max]] : complement(LINE_TERMINATORS, max));
+			case "\\":
+				i++;
+				if (assertions && (source[i] === "b" || source[i] === "B")) {
+					i++;
+					return empty;
+				}
+				return chars(escape(false));
+			case "^":
+			case "$":
+				if (!assertions) fail();
+				i++;
+				return empty;
+			default: {
+				const code = codeAt(i);
+				i += code > 0xffff ? 2 : 1;
+				return chars([[code, code]]);
+			}
+		}
+	};
+
+	const charClass = (): CharSet => {
+		i++;
+		const negated = source[i] === "^";
+		if (negated) i++;
+		let set: CharSet = [];
+		while (source[i] !== "]") {
+			if (i >= source.length) fail();
+			const first = classAtom();
+			if (source[i] === "-" && source[i + 1] !== "]" && i + 1 < source.length) {
+				i++;
+				const last = classAtom();
+				const from = first[0] as [number, number];
+				const to = last[0] as [number, number];
+				// Ranges of classes like [\d-x] are unusual enough to be left out
+				if (first.length !== 1 || last.length !== 1 || from[0] !== from[1] || to[0] !== to[1]) {
+					fail();
+				}
+				set = union(set, [[from[0], to[0]]]);
+			} else {
+				set = union(set, first);
+			}
+		}
+		i++;
+		return negated ? complement(set, max) : set;
+	};
+
+	const classAtom = (): CharSet => {
+		// Nested classes and set operations of the /v flag
+		if (flag === "v" && (source[i] === "[" || /^(?:&&|--)/.test(source.slice(i, i + 2)))) fail();
+		if (source[i] === "\\") {
+			i++;
+			return escape(true);
+		}
+		const code = codeAt(i);
+		i += code > 0xffff ? 2 : 1;
+		return [[code, code]];
+	};
+
+	const escape = (inClass: boolean): CharSet => {
+		const c = source[i] ?? "";
+		i++;
+		const single = (code: number): CharSet => [[code, code]];
+		switch (c) {
+			case "d":
+				return DIGIT;
+			case "D":
+				return complement(DIGIT, max);
+			case "w":
+				return WORD;
+			case "W":
+				return complement(WORD, max);
+			case "s":
+				return SPACE;
+			case "S":
+				return complement(SPACE, max);
+			case "n":
+				return single(0x0a);
+			case "r":
+				return single(0x0d);
+			case "t":
+				return single(0x09);
+			case "v":
+				return single(0x0b);
+			case "f":
+				return single(0x0c);
+			case "0":
+				if (/[0-9]/.test(source[i] ?? "")) fail();
+				return single(0);
+			case "b":
+				// A word boundary, except in a class
+				return inClass ? single(0x08) : fail();
+			case "c": {
+				const letter = source.charCodeAt(i);
+				i++;
+				return single(letter % 32);
+			}
+			case "x":
+			case "u": {
+				const hex =
+					c === "u" && flag && source[i] === "{"
+						? /^\{([0-9a-fA-F]+)\}/.exec(source.slice(i))
+						: new RegExp(`^()([0-9a-fA-F]{${c === "x" ? 2 : 4}})`).exec(source.slice(i));
+				if (!hex) return fail();
+				i += hex[0].length;
+				return single(parseInt((hex[2] ?? hex[1]) as string, 16));
+			}
+			default:
+				// Backreferences, non-word boundaries, Unicode properties and strings
+				if (/[1-9kBpPq]/.test(c)) fail();
+				return single(c.codePointAt(0) as number);
+		}
+	};
+
+	const node = alternation();
+	if (i < source.length) fail();
+	return node;
+}
+
+/**
+ * The characters which can start a match of a pattern, and whether it can match the empty string
+ */
+function firstChars(node: RegexNode): { nullable: boolean; chars: CharSet } {
+	switch (node.kind) {
+		case "chars":
+			return { nullable: false, chars: node.chars };
+		case "sequence": {
+			let chars: CharSet = [];
+			for (const child of node.nodes) {
+				const first = firstChars(child);
+				chars = union(chars, first.chars);
+				if (!first.nullable) return { nullable: false, chars };
+			}
+			return { nullable: true, chars };
+		}
+		case "alternation": {
+			const firsts = node.nodes.map(firstChars);
+			return {
+				nullable: firsts.some((first) => first.nullable),
+				chars: firsts.reduce((chars: CharSet, first) => union(chars, first.chars), []),
+			};
+		}
+		case "repeat": {
+			if (node.max === 0) return { nullable: true, chars: [] };
+			const first = firstChars(node.node);
+			return { nullable: first.nullable || node.min === 0, chars: first.chars };
+		}
+	}
+}
+
+function union(a: CharSet, b: CharSet): CharSet {
+	const ranges = [...a, ...b].sort((x, y) => x[0] - y[0]);
+	const result: CharSet = [];
+	for (const [lo, hi] of ranges) {
+		const last = result[result.length - 1];
+		if (last && lo <= last[1] + 1) {
+			last[1] = Math.max(last[1], hi);
+		} else {
+			result.push([lo, hi]);
+		}
+	}
+	return result;
+}
+
+function intersect(a: CharSet, b: CharSet): CharSet {
+	const result: CharSet = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		const [aLo, aHi] = a[i] as [number, number];
+		const [bLo, bHi] = b[j] as [number, number];
+		const lo = Math.max(aLo, bLo);
+		const hi = Math.min(aHi, bHi);
+		if (lo <= hi) result.push([lo, hi]);
+		if (aHi < bHi) i++;
+		else j++;
+	}
+	return result;
+}
+
+function complement(set: CharSet, max: number): CharSet {
+	const result: CharSet = [];
+	let next = 0;
+	for (const [lo, hi] of set) {
+		if (lo > next) result.push([next, lo - 1]);
+		next = hi + 1;
+	}
+	if (next <= max) result.push([next, max]);
+	return result;
+}
+
+/**
+ * Adds the other case of the letters of a set
+ */
+function foldCase(set: CharSet): CharSet {
+	const other: CharSet = [];
+	for (const [lo, hi] of set) {
+		for (const [from, to, shift] of [
+			[0x41, 0x5a, 0x20],
+			[0x61, 0x7a, -0x20],
+		] as const) {
+			const [start, end] = [Math.max(lo, from), Math.min(hi, to)];
+			if (start <= end) other.push([start + shift, end + shift]);
+		}
+		// The long s and the Kelvin sign fold into ASCII letters in unicode mode
+		for (const [code, letter] of [
+			[0x17f, 0x73],
+			[0x212a, 0x6b],
+		] as const) {
+			const letters = [letter - 0x20, letter];
+			if (lo <= code && code <= hi) other.push(...letters.map((c): [number, number] => [c, c]));
+			if (letters.some((c) => lo <= c && c <= hi)) other.push([code, code]);
+		}
+		// Beyond ASCII, only small ranges are folded character by character
+		if (hi < 0x80 || hi - lo > 0x100) continue;
+		for (let code = Math.max(lo, 0x80); code <= hi; code++) {
+			const char = String.fromCodePoint(code);
+			for (const variant of [char.toLowerCase(), char.toUpperCase()]) {
+				const folded = variant.codePointAt(0) as number;
+				if (variant.length === char.length) other.push([folded, folded]);
+			}
+		}
+	}
+	return union(set, other);
+}
+
+function toNfa(root: RegexNode): Nfa {
+	const epsilon: number[][] = [];
+	const moves: [CharSet, number][][] = [];
+	const state = () => {
+		if (epsilon.length > ANALYSIS_LIMIT) throw new Error("The automaton is too large");
+		epsilon.push([]);
+		moves.push([]);
+		return epsilon.length - 1;
+	};
+
+	// Every loop goes through a new state, so the states linked by a node have no other way back
+	const build = (node: RegexNode, from: number, to: number) => {
+		switch (node.kind) {
+			case "chars":
+				(moves[from] as [CharSet, number][]).push([node.chars, to]);
+				break;
+			case "sequence": {
+				let current = from;
+				for (const child of node.nodes) {
+					const next = state();
+					build(child, current, next);
+					current = next;
+				}
+				(epsilon[current] as number[]).push(to);
+				break;
+			}
+			case "alternation":
+				for (const child of node.nodes) build(child, from, to);
+				break;
+			case "repeat": {
+				let current = from;
+				for (let k = 0; k < node.min; k++) {
+					const next = state();
+					build(node.node, current, next);
+					current = next;
+				}
+				if (node.max === Infinity) {
+					const loop = state();
+					const body = state();
+					(epsilon[current] as number[]).push(loop);
+					build(node.node, loop, body);
+					(epsilon[body] as number[]).push(loop);
+					(epsilon[loop] as number[]).push(to);
+				} else {
+					for (let k = node.min; k < node.max; k++) {
+						const next = state();
+						(epsilon[current] as number[]).push(to);
+						build(node.node, current, next);
+						current = next;
+					}
+					(epsilon[current] as number[]).push(to);
+				}
+			}
+		}
+	};
+
+	const start = state();
+	const accept = state();
+	build(root, start, accept);
+	return { start, accept, epsilon, moves };
+}
+
+/**
+ * The states reached from some states without moving on a character, sorted
+ */
+function closure(nfa: Nfa, states: number[]) {
+	const reached = new Set(states);
+	for (const state of reached) {
+		for (const next of nfa.epsilon[state] as number[]) reached.add(next);
+	}
+	return [...reached].sort((a, b) => a - b);
+}
+
+/**
+ * A character of a set, printable when possible
+ */
+function sampleChar([first, ...rest]: CharSet) {
+	for (const [lo, hi] of [first as [number, number], ...rest]) {
+		if (hi >= 0x21 && lo <= 0x7e) return String.fromCodePoint(Math.max(lo, 0x21));
+	}
+	return String.fromCodePoint((first as [number, number])[0]);
+}
+
+/**
+ * Finds a text matched by two automata, by searching the pairs of their states
+ */
+function commonText(a: Nfa, b: Nfa): string | null {
+	const size = b.epsilon.length;
+	const start = a.start * size + b.start;
+	const parents = new Map<number, [number, string]>([[start, [-1, ""]]]);
+	const queue = [start];
+
+	const visit = (from: number, p: number, q: number, text: string) => {
+		const key = p * size + q;
+		if (parents.has(key)) return;
+		parents.set(key, [from, text]);
+		queue.push(key);
+	};
+
+	for (const key of queue) {
+		if (queue.length > ANALYSIS_LIMIT) throw new Error("The search is too large");
+		const p = Math.floor(key / size);
+		const q = key % size;
+		if (p === a.accept && q === b.accept) return textTo(parents, key);
+
+		for (const next of a.epsilon[p] as number[]) visit(key, next, q, "");
+		for (const next of b.epsilon[q] as number[]) visit(key, p, next, "");
+		for (const [aChars, aNext] of a.moves[p] as [CharSet, number][]) {
+			for (const [bChars, bNext] of b.moves[q] as [CharSet, number][]) {
+				const chars = intersect(aChars, bChars);
+				if (chars.length > 0) visit(key, aNext, bNext, sampleChar(chars));
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Finds a text matched by a rule and not won by earlier rules: which don't match it, or with the
+ * first match strategy, none of its prefixes either. Earlier rules are followed on every character
+ * at once, as sets of states.
+ */
+function survivingText(rule: Nfa, earlier: Nfa, prefixes: boolean): string | null {
+	const keys = new Map<string, number>();
+	const nodes: { state: number; earlier: number[] }[] = [];
+	const parents = new Map<number, [number, string]>();
+	const wins = (states: number[]) => states.includes(earlier.accept);
+
+	const visit = (from: number, state: number, states: number[], text: string) => {
+		if (prefixes && wins(states)) return;
+		const key = state + ":" + states.join(",");
+		if (keys.has(key)) return;
+		if (nodes.length > ANALYSIS_LIMIT) throw new Error("The search is too large");
+		keys.set(key, nodes.length);
+		parents.set(nodes.length, [from, text]);
+		nodes.push({ state, earlier: states });
+	};
+
+	visit(-1, rule.start, closure(earlier, [earlier.start]), "");
+	for (let index = 0; index < nodes.length; index++) {
+		const { state, earlier: states } = nodes[index] as (typeof nodes)[number];
+		if (state === rule.accept && !wins(states)) return textTo(parents, index);
+
+		for (const next of rule.epsilon[state] as number[]) visit(index, next, states, "");
+		const earlierMoves = states.flatMap((s) => earlier.moves[s] as [CharSet, number][]);
+		for (const [chars, next] of rule.moves[state] as [CharSet, number][]) {
+			// Split the characters where the earlier rules move differently
+			const bounds = new Set<number>();
+			for (const [lo, hi] of chars) bounds.add(lo).add(hi + 1);
+			for (const [other] of earlierMoves) {
+				for (const [lo, hi] of intersect(chars, other)) bounds.add(lo).add(hi + 1);
+			}
+			const points = [...bounds].sort((x, y) => x - y);
+			for (let k = 0; k + 1 < points.length; k++) {
+				const segment: CharSet = intersect(chars, [
+					[points[k] as number, (points[k + 1] as number) - 1],
+				]);
+				if (segment.length === 0) continue;
+				const code = (segment[0] as [number, number])[0];
+				const targets = earlierMoves
+					.filter(([other]) => other.some(([lo, hi]) => lo <= code && code <= hi))
+					.map(([, target]) => target);
+				visit(index, next, closure(earlier, targets), sampleChar(segment));
+			}
+		}
+	}
+	return null;
+}
+
+function textTo(parents: Map<number, [number, string]>, key: number) {
+	let text = "";
+	for (let node = key; node !== -1;) {
+		const [parent, char] = parents.get(node) as [number, string];
+		text = char + text;
+		node = parent;
+	}
+	return text;
+}
+
+// The position automaton of a RegExp, with a state per character of the pattern entered by matching
+// it. A transition is listed once per way the pattern allows it, since backtracking tries them all
+type PositionAutomaton = {
+	chars: CharSet[];
+	follow: number[][];
+	final: boolean[];
+};
+
+// The positions starting and ending the matches of a part of a pattern
+type PatternPart = { nullable: boolean; first: number[]; last: number[] };
+
+// The steps left to the searches of an analysis
+type Budget = { steps: number };
+
+// The steps the backtracking analysis of a RegExp takes before giving up, so that large patterns
+// do not slow down compile()
+const BACKTRACKING_BUDGET = 200000;
+
+function spend(budget: Budget) {
+	if (--budget.steps < 0) throw new Error("The analysis takes too long");
+}
+
+/**
+ * Whether matching a RegExp can take exponential or polynomial time, by backtracking over the many
+ * ways a text can be matched before failing
+ */
+function backtrackingOf(regexp: RegExp, flag: UnicodeFlag): "exponential" | "polynomial" | null {
+	return (
+		attempt(() => {
+			const node = parseRegExp(regexp.source, flag, regexp.ignoreCase, regexp.dotAll, true);
+			// Assertions can fail anywhere, even after a complete match
+			const automaton = positionAutomaton(node, isContextFree(regexp.source));
+			const budget = { steps: BACKTRACKING_BUDGET };
+			if (hasExponentialLoop(automaton, budget)) return "exponential";
+			if (hasPolynomialLoops(automaton, budget)) return "polynomial";
+			return null;
+		}) ?? null
+	);
+}
+
+function positionAutomaton(root: RegexNode, canEnd: boolean): PositionAutomaton {
+	const chars: CharSet[] = [];
+	const follow: number[][] = [];
+	const empty: PatternPart = { nullable: true, first: [], last: [] };
+
+	const link = (from: number[], to: number[]) => {
+		for (const position of from) (follow[position] as number[]).push(...to);
+	};
+	const concat = (a: PatternPart, b: PatternPart): PatternPart => {
+		link(a.last, b.first);
+		return {
+			nullable: a.nullable && b.nullable,
+			first: a.nullable ? [...a.first, ...b.first] : a.first,
+			last: b.nullable ? [...a.last, ...b.last] : b.last,
+		};
+	};
+
+	const visit = (node: RegexNode): PatternPart => {
+		switch (node.kind) {
+			case "chars": {
+				if (chars.length > ANALYSIS_LIMIT) throw new Error("The pattern is too large");
+				chars.push(node.chars);
+				follow.push([]);
+				return { nullable: false, first: [chars.length - 1], last: [chars.length - 1] };
+			}
+			case "sequence":
+				return node.nodes.map(visit).reduce(concat, empty);
+			case "alternation": {
+				const parts = node.nodes.map(visit);
+				return {
+					nullable: parts.some((part) => part.nullable),
+					first: parts.flatMap((part) => part.first),
+					last: parts.flatMap((part) => part.last),
+				};
+			}
+			case "repeat": {
+				let part = empty;
+				for (let k = 0; k < node.min; k++) part = concat(part, visit(node.node));
+				if (node.max === Infinity) {
+					const body = visit(node.node);
+					link(body.last, body.first);
+					return concat(part, { nullable: true, first: body.first, last: body.last });
+				}
+				// Optional copies are nested, as in x(x(x)?)?, so that each count is matched once
+				let optional = empty;
+				for (let k = node.min; k < node.max; k++) {
+					optional = { ...concat(visit(node.node), optional), nullable: true };
+				}
+				return concat(part, optional);
+			}
+		}
+	};
+
+	const { last } = visit(root);
+	const final = chars.map(() => false);
+	if (canEnd) for (const position of last) final[position] = true;
+	return { chars, follow, final };
+}
+
+/**
+ * Whether two different ways to match some text lead from a position back to itself, which doubles
+ * the ways to match with each repetition of the text
+ */
+function hasExponentialLoop({ chars, follow, final }: PositionAutomaton, budget: Budget) {
+	const n = chars.length;
+	for (let p = 0; p < n; p++) {
+		// Matching stops without backtracking when it can end there
+		if (final[p]) continue;
+
+		// Pairs of positions reached on the same text, and whether the two ways parted
+		const seen = new Set([p * n + p]);
+		const queue: [number, number, boolean][] = [[p, p, false]];
+		for (const [i, j, parted] of queue) {
+			if (queue.length > ANALYSIS_LIMIT) throw new Error("The search is too large");
+			const fromI = follow[i] as number[];
+			const fromJ = follow[j] as number[];
+			for (let k = 0; k < fromI.length; k++) {
+				for (let l = 0; l < fromJ.length; l++) {
+					spend(budget);
+					const a = fromI[k] as number;
+					const b = fromJ[l] as number;
+					if (intersect(chars[a] as CharSet, chars[b] as CharSet).length === 0) continue;
+					const parts = parted || a !== b || k !== l;
+					if (a === p && b === p && parts) return true;
+					const key = ((a * n + b) << 1) | (parts ? 1 : 0);
+					if (seen.has(key)) continue;
+					seen.add(key);
+					queue.push([a, b, parts]);
+				}
+			}
+		}
+	}
+	return false;
+}
+
+/**
+ * Whether some text loops on a position, leads from it to another one, and loops on that one, so
+ * that the ways to match grow with the square of the repetitions of the text
+ */
+function hasPolynomialLoops({ chars, follow, final }: PositionAutomaton, budget: Budget) {
+	const n = chars.length;
+	const reachable = chars.map((_, p) => {
+		const reached = new Set<number>();
+		const queue = [p];
+		for (const i of queue) {
+			for (const next of follow[i] as number[]) {
+				spend(budget);
+				if (reached.has(next)) continue;
+				reached.add(next);
+				queue.push(next);
+			}
+		}
+		return reached;
+	});
+
+	for (let p = 0; p < n; p++) {
+		const fromP = reachable[p] as Set<number>;
+		if (!fromP.has(p)) continue;
+		for (let q = 0; q < n; q++) {
+			const fromQ = reachable[q] as Set<number>;
+			if (q === p || final[q] || !fromQ.has(q) || !fromP.has(q)) continue;
+
+			// Triples of positions reached on the same text, from (p, p, q) back to (p, q, q)
+			const seen = new Set([(p * n + p) * n + q]);
+			const queue: [number, number, number][] = [[p, p, q]];
+			for (const [x, y, z] of queue) {
+				if (queue.length > ANALYSIS_LIMIT) throw new Error("The search is too large");
+				for (const a of follow[x] as number[]) {
+					for (const b of follow[y] as number[]) {
+						spend(budget);
+						const ab = intersect(chars[a] as CharSet, chars[b] as CharSet);
+						if (ab.length === 0) continue;
+						for (const c of follow[z] as number[]) {
+							spend(budget);
+							if (intersect(ab, chars[c] as CharSet).length === 0) continue;
+							if (a === p && b === q && c === q) return true;
+							const key = (a * n + b) * n + c;
+							if (seen.has(key)) continue;
+							seen.add(key);
+							queue.push([a, b, c]);
+						}
+					}
+				}
+			}
+		}
+	}
+	return false;
+}
+
+// The line terminators of each newline policy
+const LINE_BREAKS: Record<NewlinePolicy, string[]> = {
+	lf: ["\n"],
+	any: ["\n", "\r"],
+	unicode: ["\n", "\r", "\u2028", "\u2029", "\u0085"],
+};
+
+// Line breaks of each newline policy, the longest first
+const NEWLINES: Record<NewlinePolicy, string> = {
+	lf: "\\n",
+	any: "\\r\\n|\\r|\\n",
+	unicode: "\\r\\n|[\\r\\n\\u2028\\u2029\\u0085]",
+};
+
+/**
+ * Returns the offsets after each line break of the text, shifted by `base`
+ */
+function lineBreaksOf(text: string, base: number, newlines: NewlinePolicy) {
+	const starts: number[] = [];
+	if (newlines === "lf") {
+		for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+			starts.push(base + i + 1);
+		}
+	} else {
+		const matchNL = new RegExp(NEWLINES[newlines], "g");
+		while (matchNL.exec(text)) starts.push(base + matchNL.lastIndex);
+	}
+	return starts;
+}
+
+/**
+ * Returns the index of the first value greater than `value` in a sorted array
+ */
+function upperBound(values: number[], value: number) {
+	let low = 0;
+	let high = values.length;
+	while (low < high) {
+		const mid = (low + high) >>> 1;
+		if ((values[mid] as number) <= value) low = mid + 1;
+		else high = mid;
+	}
+	return low;
+}
+
+function isLowSurrogate(code: number) {
+	return code >= 0xdc00 && code <= 0xdfff;
+}
+
+// Intl.Segmenter is missing from the ES6 lib
+type Segmenter = { segment(text: string): Iterable<{ segment: string }> };
+const Segmenter = (
+	Intl as unknown as {
+		Segmenter?: new (locale?: string, options?: { granularity: "grapheme" }) => Segmenter;
+	}
+).Segmenter;
+const segmenter = Segmenter && new Segmenter(undefined, { granularity: "grapheme" });
+
+function* graphemes(text: string) {
+	for (const { segment } of (segmenter as Segmenter).segment(text)) yield segment;
+}
+
+// Graphemes displayed on two columns: East Asian wide and fullwidth characters, and emoji
+const WIDE =
+	/^(?:[\u1100-\u115f\u2e80-\u303e\u3041-\u33ff\u3400-\u4dbf\u4e00-\u9fff\ua000-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]|[\u{20000}-\u{3fffd}]|\p{Emoji_Presentation}|\p{Extended_Pictographic}\ufe0f)/u;
+// Graphemes displayed on no column: lone combining marks, format and control characters
+const ZERO_WIDTH = /^(?:\p{M}|\p{Cf}|\p{Cc})/u;
+
+function graphemeWidth(grapheme: string) {
+	if (WIDE.test(grapheme)) return 2;
+	if (ZERO_WIDTH.test(grapheme)) return 0;
+	return 1;
+}
+
+function utf8Length(code: number) {
+	return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+async function* chunksOf(stream: TextStream) {
+	if (Symbol.asyncIterator in stream) {
+		yield* stream;
+		return;
+	}
+
+	// Not every web ReadableStream is async iterable
+	const reader = stream.getReader();
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) return;
+			yield value;
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Returns the index of the first token starting at or after the offset
+ */
+function firstTokenAt(tokens: Token[], offset: number, from = 0) {
+	let low = from;
+	let high = tokens.length;
+	while (low < high) {
+		const mid = (low + high) >>> 1;
+		if ((tokens[mid]?.offset ?? Infinity) < offset) low = mid + 1;
+		else high = mid;
+	}
+	return low;
+}
+
+function sameFrame(a: StateFrame, b: StateFrame) {
+	return (
+		a === b ||
+		(a.stateName === b.stateName &&
+			a.stack.length === b.stack.length &&
+			a.stack.every((stateName, i) => stateName === b.stack[i]))
+	);
+}
+
+function sameToken(a: Token, b: Token) {
+	return (
+		a.type === b.type &&
+		a.value === b.value &&
+		a.text === b.text &&
+		a.offset === b.offset &&
+		a.line === b.line &&
+		a.col === b.col &&
+		sameFrame(a.frame, b.frame)
+	);
+}
+
+function pad(s: string, length: number) {
+	if (s.length > length) {
+		return s;
+	}
+	return " ".repeat(length - s.length) + s;
+}
+
+function isIncludeRule<T extends string>(rule: StateRule<T>): rule is IncludeRule<T> {
+	return Object.prototype.hasOwnProperty.call(rule, "include");
 }
 
 function isStateSwitchingRule<T extends string>(
@@ -439,7 +3169,10 @@ export function keywords(map: Record<string, string | string[]>): StringMapper {
 		const keywordList = Array.isArray(item) ? item : [item];
 		keywordList.forEach((keyword) => {
 			if (typeof keyword !== "string") {
-				throw new Error("keyword must be string (in keyword '" + tokenType + "')");
+				throw new GrammarError(
+					"INVALID_KEYWORD",
+					"keyword must be string (in keyword '" + tokenType + "')",
+				);
 			}
 			reverseMap.set(keyword, tokenType);
 		});
@@ -0,0 +1,151 @@
+import { describe, expect, test } from "vitest";
+import { analyze, compile, states } from "../index";
+
+const options = { shadowing: "ignore" } as const;
+
+describe("analyze", () => {
+	test("reports nothing for a sound grammar", () => {
+		const lexer = compile([
+			{ type: "number", match: /[0-9]+/ },
+			{ type: "name", match: /[a-z]+/ },
+			{ type: "space", match: / +/ },
+			{ type: "op", match: ["<=", "<"] },
+		]);
+		expect(analyze(lexer)).toEqual([]);
+	});
+
+	test("reports rules which can never match", () => {
+		const lexer = compile(
+			[
+				{ type: "name", match: /[a-z]+/ },
+				{ type: "keyword", match: ["if", "else"] },
+				{ type: "number", match: /[0-9]+/ },
+				{ type: "digits", match: /[0-5]+/ },
+				{ type: "lt", match: "<" },
+				{ type: "arrow", match: /<+-/ },
+			],
+			options,
+		);
+		expect(analyze(lexer)).toEqual([
+			{
+				code: "DEAD_RULE",
+				message: "Rule 'keyword' in state 'start' can never match, since earlier rules always win",
+				stateName: "start",
+				ruleIndex: 1,
+				ruleType: "keyword",
+			},
+			expect.objectContaining({ code: "DEAD_RULE", ruleIndex: 3 }),
+			expect.objectContaining({ code: "DEAD_RULE", ruleIndex: 5 }),
+		]);
+	});
+
+	test("reports rules matching the same text as an earlier rule", () => {
+		const lexer = compile([
+			{ type: "float", match: /[0-9]*\.[0-9]+/ },
+			{ type: "range", match: /\.\.[0-9]?/ },
+			{ type: "keyword", match: "THEN", ignoreCase: true },
+			{ type: "name", match: /[a-z]+/i },
+		]);
+		expect(analyze(lexer)).toEqual([
+			{
+				code: "OVERLAP",
+				message: "Rules 'keyword' and 'name' in state 'start' can both match 'THEN'",
+				stateName: "start",
+				ruleIndex: 3,
+				ruleType: "name",
+				otherRuleIndex: 2,
+				witness: "THEN",
+			},
+		]);
+	});
+
+	test("finds overlaps of RegExps", () => {
+		const lexer = compile([
+			{ type: "hex", match: /0x[0-9a-f]+/ },
+			{ type: "word", match: /[a-z0-9]+/ },
+			{ type: "space", match: / +/ },
+		]);
+		const [issue] = analyze(lexer);
+		expect(issue).toMatchObject({ code: "OVERLAP", ruleIndex: 1, otherRuleIndex: 0 });
+		expect(issue!.witness).toMatch(/^0x[0-9a-f]+$/);
+	});
+
+	test("depends on the strategy", () => {
+		const rules = [
+			{ type: "lt", match: "<" },
+			{ type: "le", match: "<=" },
+			{ type: "name", match: /[a-z]+/ },
+			{ type: "keyword", match: "if" },
+		];
+		expect(analyze(compile(rules, options)).map((issue) => issue.ruleIndex)).toEqual([1, 3]);
+		expect(
+			analyze(compile(rules, { ...options, strategy: "longest" })).map((issue) => [
+				issue.code,
+				issue.ruleIndex,
+			]),
+		).toEqual([["DEAD_RULE", 3]]);
+	});
+
+	test("leaves out RegExps depending on the surrounding text", () => {
+		const lexer = compile(
+			[
+				{ type: "name", match: /[a-z]+\b/ },
+				{ type: "keyword", match: "if" },
+				{ type: "word", match: /(?=[a-z])\w+/ },
+			],
+			options,
+		);
+		expect(analyze(lexer)).toEqual([]);
+	});
+
+	test("reports unreachable states", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "open", match: "(", push: "inner" },
+					{ type: "quote", match: '"', next: "string" },
+				],
+				inner: [{ type: "close", match: ")", pop: 1 }],
+				string: [{ type: "quote", match: '"', next: "main" }],
+				comment: [{ type: "end", match: "*/", next: "main" }],
+			},
+			"main",
+		);
+		expect(analyze(lexer)).toEqual([
+			{
+				code: "UNREACHABLE_STATE",
+				message: "State 'comment' cannot be reached from the start state 'main'",
+				stateName: "comment",
+			},
+		]);
+	});
+
+	test("reports pushed states which cannot pop", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "open", match: "(", push: "inner" },
+					{ type: "brace", match: "{", push: "block" },
+				],
+				inner: [
+					{ type: "open", match: "(", push: "inner" },
+					{ type: "quote", match: '"', next: "string" },
+				],
+				string: [{ type: "quote", match: '"', next: "inner" }],
+				block: [
+					{ type: "quote", match: '"', next: "text" },
+					{ type: "brace", match: "{", push: "block" },
+				],
+				text: [{ type: "close", match: "}", pop: 1 }],
+			},
+			"main",
+		);
+		expect(analyze(lexer)).toEqual([
+			{
+				code: "NO_POP",
+				message: "State 'inner' is pushed but cannot pop",
+				stateName: "inner",
+			},
+		]);
+	});
+});
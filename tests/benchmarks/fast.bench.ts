@@ -0,0 +1,113 @@
+import fs from "fs";
+import { bench, describe } from "vitest";
+import { compile, type Lexer } from "../../index";
+import { exampleFile } from "../examples/tosh";
+
+// The grammars of the python and tosh examples, with their single-character literals written
+// either as literals, which are dispatched on their char code, or as an equivalent RegExp.
+
+function pythonLexer(fast: boolean) {
+	const operators = [
+		...["->", "+=", "-=", "*=", "/=", "//=", "%=", "@=", "&=", "|=", "^=", ">>=", "<<=", "**="],
+		...["+", "-", "**", "*", "//", "/", "%", "<<", ">>", "<=", ">=", "==", "!=", "&", "|", "^"],
+		...[".", "@", "<", ">", "="],
+	].sort((a, b) => b.length - a.length);
+
+	return compile([
+		fast
+			? { type: "OP", match: ["(", ")", "[", "]", "{", "}", ",", ":", ";", "~"] }
+			: { type: "OP", match: /[()[\]{},:;~]/ },
+		{ type: "Whitespace", match: /[ \t]+/ },
+		{ type: "NAME", match: /[A-Za-z_][A-Za-z0-9_]*/ },
+		{ type: "OP", match: operators },
+		{ type: "COMMENT", match: /#.*/ },
+		{ type: "NEWLINE", match: /\r\n|\r|\n/, lineBreaks: true },
+		{ type: "Continuation", match: /\\/ },
+		{ type: "ERRORTOKEN", match: /[$?`]/, option: "error" },
+		{
+			type: "NUMBER",
+			match: [
+				/(?:[0-9]+(?:\.[0-9]+)?e-?[0-9]+)/,
+				/(?:(?:0|[1-9][0-9]*)?\.[0-9]+)/,
+				/(?:(?:0|[1-9][0-9]*)\.[0-9]*)/,
+				/(?:0|[1-9][0-9]*)/,
+			],
+		},
+		{
+			type: "STRING",
+			match: [/"""[^]*?"""/, /'''[^]*?'''/, /"(?:\\[^]|[^"\\\n])*?"/, /'(?:\\[^]|[^'\\\n])*?'/],
+			lineBreaks: true,
+		},
+	]);
+}
+
+function toshLexer(fast: boolean) {
+	return compile([
+		fast
+			? { type: "symbol", match: Array.from("-%#+*/=^,?") }
+			: { type: "symbol", match: /[-%#+*/=^,?]/ },
+		{ type: "WS", match: /[ \t]+/ },
+		{ type: "ellips", match: /\.{3}/ },
+		{ type: "comment", match: /\/{2}.*$/ },
+		{ type: "false", match: /<>/ },
+		{ type: "zero", match: /\(\)/ },
+		{ type: "empty", match: /_(?: |$)/ },
+		{ type: "number", match: /[0-9]+(?:\.[0-9]+)?e-?[0-9]+/ },
+		{ type: "number", match: /(?:0|[1-9][0-9]*)?\.[0-9]+/ },
+		{ type: "number", match: /(?:0|[1-9][0-9]*)\.[0-9]*/ },
+		{ type: "number", match: /0|[1-9][0-9]*/ },
+		{ type: "color", match: /#(?:[A-Fa-f0-9]{3}){2}/ },
+		{ type: "string", match: /"(?:\\["\\]|[^\n"\\])*"/ },
+		{ type: "string", match: /'(?:\\['\\]|[^\n'\\])*'/ },
+		{ type: "lparen", match: /\(/ },
+		{ type: "rparen", match: /\)/ },
+		{ type: "langle", match: /</ },
+		{ type: "rangle", match: />/ },
+		{ type: "lsquare", match: /\[/ },
+		{ type: "rsquare", match: /\]/ },
+		{ type: "cloud", match: /[☁]/ },
+		{ type: "input", match: /%[a-z](?:\.[a-zA-Z]+)?/ },
+		{ type: "symbol", match: /[_A-Za-z][-_A-Za-z0-9:',.]*/ },
+		{ type: "iden", match: /[^\n \t"'()<>=*/+-]+/ },
+		{ type: "NL", match: /\n/, lineBreaks: true },
+		{ type: "ERROR", option: "error" },
+	]);
+}
+
+function lexAll(lexer: Lexer, source: string) {
+	let count = 0;
+	for (const token of lexer.reset(source)) {
+		if (token.type === "ERRORTOKEN" || token.type === "ERROR") {
+			throw new Error(`Unexpected error token at line ${token.line} col ${token.col}`);
+		}
+		count++;
+	}
+	return count;
+}
+
+const pythonSource = fs.readFileSync(new URL("../examples/kurt.py", import.meta.url), "utf-8");
+const toshSource = (exampleFile + "\n").repeat(100);
+
+describe("python", () => {
+	const fast = pythonLexer(true);
+	const slow = pythonLexer(false);
+
+	bench("fast single characters", () => {
+		lexAll(fast, pythonSource);
+	});
+	bench("RegExp single characters", () => {
+		lexAll(slow, pythonSource);
+	});
+});
+
+describe("tosh", () => {
+	const fast = toshLexer(true);
+	const slow = toshLexer(false);
+
+	bench("fast single characters", () => {
+		lexAll(fast, toshSource);
+	});
+	bench("RegExp single characters", () => {
+		lexAll(slow, toshSource);
+	});
+});
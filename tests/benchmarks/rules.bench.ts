@@ -0,0 +1,77 @@
+import { bench, describe } from "vitest";
+import { compile, type Lexer } from "../../index";
+
+// A grammar with 300 rules, most of them keywords, written either as literals or as RegExps.
+// The matched rule of a literal is found directly, whereas RegExps are dispatched on the first
+// character of the match, or scanned in order without the dispatch.
+
+// The keywords start with every letter, as they do in real grammars
+const keywords = Array.from(
+	{ length: 296 },
+	(_, i) => String.fromCharCode(0x61 + (i % 26)) + "kw" + String(i).padStart(3, "0"),
+);
+
+function keywordLexer(literals: boolean, strategy: "first" | "longest" = "first") {
+	return compile(
+		[
+			{ type: "space", match: " " },
+			...keywords.map((keyword) => ({
+				type: keyword,
+				match: literals ? keyword : new RegExp(keyword),
+			})),
+			{ type: "identifier", match: /[a-z_][a-z0-9_]*/ },
+			{ type: "number", match: /[0-9]+/ },
+			{ type: "op", match: ["==", "=", "+", "-"] },
+		],
+		{ strategy },
+	);
+}
+
+// Scans every RegExp group in order, as the rule of a match was found before the dispatch
+function withoutDispatch(lexer: Lexer) {
+	for (const matcher of lexer.state.matchers) matcher.dispatch = [];
+	return lexer;
+}
+
+function lexAll(lexer: Lexer, source: string) {
+	let count = 0;
+	for (const token of lexer.reset(source)) {
+		if (token.type) count++;
+	}
+	return count;
+}
+
+const words: string[] = [];
+for (let i = 0; i < 20000; i++) {
+	const keyword = keywords[(i * 7919) % keywords.length] as string;
+	words.push(i % 5 === 0 ? "name" + i : i % 7 === 0 ? "==" : keyword);
+}
+const source = words.join(" ");
+
+describe("300 rules", () => {
+	const literals = keywordLexer(true);
+	const regexps = keywordLexer(false);
+	const scanned = withoutDispatch(keywordLexer(false));
+
+	bench("literal keywords", () => {
+		lexAll(literals, source);
+	});
+	bench("RegExp keywords", () => {
+		lexAll(regexps, source);
+	});
+	bench("RegExp keywords, scanned in order", () => {
+		lexAll(scanned, source);
+	});
+});
+
+describe("300 rules, longest match", () => {
+	const first = keywordLexer(false);
+	const longest = keywordLexer(false, "longest");
+
+	bench("first match", () => {
+		lexAll(first, source);
+	});
+	bench("longest match", () => {
+		lexAll(longest, source);
+	});
+});
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "vitest";
+import { compile, GrammarError, type Lexer } from "../index";
+import { lexAll } from "./utils";
+
+describe("columns", () => {
+	const rules = [
+		{ type: "WS", match: /[ \t]+/u },
+		{ type: "word", match: /[^\s]+/u },
+		{ type: "NL", match: /\n/u, lineBreaks: true },
+	];
+	const data = "a\té 😀 👩‍👩‍👧 日本 x\nb\t\tc";
+
+	function cols(lexer: Lexer) {
+		return lexAll(lexer.reset(data))
+			.filter((t) => t.type === "word")
+			.map((t) => [t.value, t.col, t.endCol]);
+	}
+
+	test("counts UTF-16 code units by default", () => {
+		expect(cols(compile(rules))).toEqual([
+			["a", 1, 2],
+			["é", 3, 4],
+			["😀", 5, 7],
+			["👩‍👩‍👧", 8, 16],
+			["日本", 17, 19],
+			["x", 20, 21],
+			["b", 1, 2],
+			["c", 4, 5],
+		]);
+	});
+
+	test("counts code points", () => {
+		expect(cols(compile(rules, { columns: "codepoint" }))).toEqual([
+			["a", 1, 2],
+			["é", 3, 4],
+			["😀", 5, 6],
+			["👩‍👩‍👧", 7, 12],
+			["日本", 13, 15],
+			["x", 16, 17],
+			["b", 1, 2],
+			["c", 4, 5],
+		]);
+	});
+
+	test("counts grapheme clusters", () => {
+		expect(cols(compile(rules, { columns: "grapheme" }))).toEqual([
+			["a", 1, 2],
+			["é", 3, 4],
+			["😀", 5, 6],
+			["👩‍👩‍👧", 7, 8],
+			["日本", 9, 11],
+			["x", 12, 13],
+			["b", 1, 2],
+			["c", 4, 5],
+		]);
+	});
+
+	test("counts display width with tab stops", () => {
+		expect(cols(compile(rules, { columns: "width" }))).toEqual([
+			["a", 1, 2],
+			["é", 5, 6],
+			["😀", 7, 9],
+			["👩‍👩‍👧", 10, 12],
+			["日本", 13, 17],
+			["x", 18, 19],
+			["b", 1, 2],
+			["c", 9, 10],
+		]);
+		expect(cols(compile(rules, { columns: "width", tabSize: 2 })).at(-1)).toEqual(["c", 5, 6]);
+	});
+
+	test("aligns error frames", () => {
+		const lexer = compile(rules, { columns: "width" });
+		const token = lexAll(lexer.reset(data)).find((t) => t.value === "x")!;
+		expect(lexer.formatError(token, "oops")).toBe(
+			[
+				"oops at line 1 col 18:",
+				"",
+				"1  a   é 😀 👩‍👩‍👧 日本 x",
+				"                    ^",
+				"2  b       c",
+			].join("\n"),
+		);
+	});
+
+	test("underlines multiline tokens in columns", () => {
+		const lexer = compile([{ type: "text", match: /[^]+/u, lineBreaks: true }], {
+			columns: "width",
+		});
+		lexer.reset("日本\n\tx");
+		expect(lexer.formatError(lexer.next())).toBe(
+			[" at line 1 col 1:", "", "1  日本", "   ^~~~", "2      x", "   ~~~~^"].join("\n"),
+		);
+	});
+
+	test("rejects invalid tab sizes", () => {
+		expect(() => compile(rules, { tabSize: 0 })).toThrowError(GrammarError);
+	});
+});
@@ -1,5 +1,5 @@
-import { describe, expect, test } from "vitest";
-import { compile, states } from "../index";
+import { describe, expect, test, vi } from "vitest";
+import { GrammarError, compile, states } from "../index";
 import { lexAll } from "./utils";
 
 describe("compiler", () => {
@@ -19,14 +19,142 @@ describe("compiler", () => {
 		expect(lex4.next()).toMatchObject({ type: "err", text: "nope!" });
 	});
 
-	test("warns for /g, /y, /i, /m", () => {
+	test("throws structured grammar errors", () => {
+		let error: unknown;
+		try {
+			states({
+				main: [
+					{ type: "word", match: /\w+/ },
+					{ type: "group", match: /(a)/ },
+				],
+			});
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(GrammarError);
+		expect(error).toMatchObject({
+			name: "GrammarError",
+			code: "CAPTURE_GROUP",
+			stateName: "main",
+			ruleIndex: 1,
+			ruleType: "group",
+		});
+
+		expect(() => compile([])).toThrow(expect.objectContaining({ code: "NO_RULES" }));
+		expect(() => compile([{ type: "x", match: /x/g }])).toThrow(
+			expect.objectContaining({ code: "INVALID_FLAG", stateName: "start", ruleIndex: 0 }),
+		);
+	});
+
+	test("warns for /g, /y, /m", () => {
 		expect(() => compile([{ type: "", match: /foo/ }])).not.toThrow();
 		expect(() => compile([{ type: "", match: /foo/g }])).toThrow("implied");
-		expect(() => compile([{ type: "", match: /foo/i }])).toThrow("not allowed");
+		expect(() => compile([{ type: "", match: /foo/i }])).not.toThrow();
 		expect(() => compile([{ type: "", match: /foo/y }])).toThrow("implied");
 		expect(() => compile([{ type: "", match: /foo/m }])).toThrow("implied");
 	});
 
+	test("warns about undeclared line breaks", () => {
+		expect(() => compile([{ type: "space", match: /\s+/ }])).toThrow(
+			"Rule 'space' in state 'start' can match a line break, so it should declare lineBreaks",
+		);
+		expect(() => states({ main: [{ type: "NL", match: ["\n"] }] })).toThrow(
+			expect.objectContaining({ code: "LINE_BREAKS", stateName: "main", ruleType: "NL" }),
+		);
+		expect(() => compile([{ type: "space", match: /\s+/, lineBreaks: true }])).not.toThrow();
+
+		// The line terminators depend on the newline policy
+		expect(() => compile([{ type: "CR", match: "\r" }])).not.toThrow();
+		expect(() => compile([{ type: "CR", match: "\r" }], { newlines: "any" })).toThrow(
+			expect.objectContaining({ code: "LINE_BREAKS" }),
+		);
+		expect(() => compile([{ type: "LS", match: /[^a]/u }], { newlines: "any" })).toThrow(
+			expect.objectContaining({ code: "LINE_BREAKS" }),
+		);
+		expect(() => compile([{ type: "LS", match: "\u2028" }], { newlines: "any" })).not.toThrow();
+		expect(() => compile([{ type: "LS", match: "\u2028" }], { newlines: "unicode" })).toThrow(
+			expect.objectContaining({ code: "LINE_BREAKS" }),
+		);
+
+		// A line break anywhere in a match counts
+		expect(() => compile([{ type: "string", match: /"[^"]*"/ }])).toThrow(
+			expect.objectContaining({ code: "LINE_BREAKS", ruleType: "string" }),
+		);
+		expect(() => compile([{ type: "comment", match: /#.*/ }])).not.toThrow();
+	});
+
+	test("counts the line breaks of multi-line strings", () => {
+		const lexer = compile([
+			{ type: "string", match: /"[^"]*"/, lineBreaks: true },
+			{ type: "ws", match: / +/ },
+			{ type: "name", match: /[a-z]+/ },
+		]);
+		expect(lexAll(lexer.reset('"a\nb" x')).map((t) => [t.type, t.line, t.col])).toEqual([
+			["string", 1, 1],
+			["ws", 2, 3],
+			["name", 2, 4],
+		]);
+	});
+
+	test("counts the line breaks of rules which cannot be analysed", () => {
+		const lexer = compile([
+			{ type: "string", match: /"\P{Lu}*?"/u },
+			{ type: "ws", match: / +/u },
+		]);
+		expect(lexAll(lexer.reset('"a\nb" ')).map((t) => [t.type, t.line, t.col])).toEqual([
+			["string", 1, 1],
+			["ws", 2, 3],
+		]);
+	});
+
+	test("rejects RegExps which can backtrack catastrophically", () => {
+		expect(() => compile([{ type: "as", match: /(?:a|a)*b/ }])).toThrow(
+			"Rule 'as' in state 'start' can take exponential time to match some inputs, unless it declares allowBacktracking: /(?:a|a)*b/",
+		);
+		expect(() => states({ main: [{ type: "word", match: [/x/, /(?:\w+ ?)+$/] }] })).toThrow(
+			expect.objectContaining({ code: "BACKTRACKING", stateName: "main", ruleType: "word" }),
+		);
+		expect(() => compile([{ type: "number", match: /\d+\.?\d+x/ }])).toThrow(
+			"can take polynomial time",
+		);
+
+		// Alternatives which cannot match the same text are safe
+		expect(() =>
+			compile([{ type: "string", match: /"(?:\\[^]|[^"\\\n])*"/, lineBreaks: true }]),
+		).not.toThrow();
+		expect(() => compile([{ type: "path", match: /(?:[a-z]+\.)*[a-z]+/ }])).not.toThrow();
+		// Backtracking stops at the first match
+		expect(() => compile([{ type: "word", match: /[a-z]+[a-z0-9]*/ }])).not.toThrow();
+	});
+
+	test("compiles large alternations quickly", () => {
+		const words = Array.from({ length: 100 }, (_, i) => "w" + i.toString(36));
+		const start = performance.now();
+		const lexer = compile([{ type: "words", match: new RegExp(`(?:${words.join("|")})+`) }]);
+		expect(performance.now() - start).toBeLessThan(1000);
+		expect(lexAll(lexer.reset("w1w2wa")).map((t) => t.value)).toEqual(["w1w2wa"]);
+	});
+
+	test("accepts vetted RegExps", () => {
+		const lexer = compile([
+			{ type: "as", match: /(?:a+)+b/, allowBacktracking: true },
+			{ type: "a", match: "a" },
+		]);
+		expect(lexAll(lexer.reset("aab")).map((t) => t.type)).toEqual(["as"]);
+	});
+
+	test("counts line breaks of the rules declaring them", () => {
+		const lexer = compile([
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "NL", match: "\n", lineBreaks: true },
+		]);
+		expect(lexAll(lexer.reset("a\nb")).map((t) => [t.value, t.line, t.lineBreaks])).toEqual([
+			["a", 1, 0],
+			["\n", 1, 1],
+			["b", 2, 0],
+		]);
+	});
+
 	// test("warns about missing states", () => {
 	// 	const rules = [
 	// 		{ match: "=", next: "missing" },
@@ -152,4 +280,145 @@ describe("compiles literals", () => {
 		lexer.reset("moomintroll");
 		expect(lexer.next()).toMatchObject({ value: "moo" });
 	});
+
+	test("sorts the literals of a rule longest first", () => {
+		const lexer = compile([{ type: "op", match: ["=", "==", "!", "!="] }]);
+		lexer.reset("===!=!");
+		expect(lexAll(lexer).map((t) => t.value)).toEqual(["==", "=", "!=", "!"]);
+	});
+
+	test("keeps literals after a RegExp of their rule", () => {
+		const lexer = compile([{ type: "op", match: [/<+>/, "<", "<<"] }]);
+		lexer.reset("<<><<");
+		expect(lexAll(lexer).map((t) => t.value)).toEqual(["<<>", "<<"]);
+	});
+});
+
+describe("shadowed literals", () => {
+	const rules = [
+		{ type: "lt", match: "<" },
+		{ type: "le", match: "<=" },
+		{ type: "name", match: /[a-z]+/ },
+		{ type: "keyword", match: ["if", "else"] },
+	];
+
+	test("are reported as errors", () => {
+		expect(() => compile(rules, { shadowing: "error" })).toThrow(
+			"Literal '<=' of rule 'le' in state 'start' is shadowed by rule 'lt'",
+		);
+		expect(() => states({ main: rules }, "main", { shadowing: "error" })).toThrow(
+			expect.objectContaining({ code: "SHADOWED_RULE", stateName: "main", ruleIndex: 1 }),
+		);
+	});
+
+	test("are reported as warnings", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		compile(rules, { shadowing: "warn" });
+		expect(warn.mock.calls).toEqual([
+			["Literal '<=' of rule 'le' in state 'start' is shadowed by rule 'lt'"],
+			["Literal 'if' of rule 'keyword' in state 'start' is shadowed by rule 'name'"],
+			["Literal 'else' of rule 'keyword' in state 'start' is shadowed by rule 'name'"],
+		]);
+
+		warn.mockClear();
+		compile(rules);
+		compile(rules, { shadowing: "ignore" });
+		expect(warn).not.toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	test("depend on the strategy", () => {
+		expect(() =>
+			compile(rules.slice(0, 2), { strategy: "longest", shadowing: "error" }),
+		).not.toThrow();
+		expect(() => compile(rules, { strategy: "longest", shadowing: "error" })).toThrow(
+			expect.objectContaining({ code: "SHADOWED_RULE", ruleIndex: 3 }),
+		);
+	});
+
+	test("ignore RegExps depending on the surrounding text", () => {
+		const lexer = () =>
+			compile(
+				[
+					{ type: "name", match: /[a-z]+(?![a-z])/ },
+					{ type: "id", match: /[a-z]+\b/ },
+					{ type: "keyword", match: "if" },
+				],
+				{ shadowing: "error" },
+			);
+		expect(lexer).not.toThrow();
+	});
+
+	test("include case-insensitive rules", () => {
+		expect(() =>
+			compile(
+				[
+					{ type: "name", match: /[A-Z]+/i },
+					{ type: "keyword", match: "if" },
+				],
+				{ shadowing: "error" },
+			),
+		).toThrow(expect.objectContaining({ code: "SHADOWED_RULE" }));
+	});
+});
+
+describe("identifies the matched rule", () => {
+	test("prefers RegExps declared before a literal", () => {
+		const lexer = compile([
+			{ type: "upper", match: /[A-Z]+/ },
+			{ type: "keyword", match: ["if", "IF"] },
+			{ type: "lower", match: /[a-z]+/ },
+			{ type: "space", match: " " },
+		]);
+		lexer.reset("IF if iff");
+		expect(lexAll(lexer).map((t) => [t.type, t.value])).toEqual([
+			["upper", "IF"],
+			["space", " "],
+			["keyword", "if"],
+			["space", " "],
+			["keyword", "if"],
+			["lower", "f"],
+		]);
+	});
+
+	test("uses the first rule declaring a literal", () => {
+		const lexer = compile([
+			{ type: "a", match: [/x+/, "=="] },
+			{ type: "b", match: ["==", "!="] },
+			{ type: "c", match: "!=" },
+		]);
+		lexer.reset("==!=xx");
+		expect(lexAll(lexer).map((t) => [t.type, t.value])).toEqual([
+			["a", "=="],
+			["b", "!="],
+			["a", "xx"],
+		]);
+	});
+
+	test("handles text matched by a RegExp which is also a later literal", () => {
+		const lexer = compile([
+			{ type: "space", match: " " },
+			{ type: "number", match: /[0-9]+/ },
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "zero", match: "0" },
+			{ type: "keyword", match: "while" },
+		]);
+		lexer.reset("0 while");
+		expect(lexAll(lexer).map((t) => t.type)).toEqual(["number", "space", "word"]);
+	});
+
+	test("finds RegExps by the characters which can start them", () => {
+		const lexer = compile([
+			{ type: "number", match: /[0-9]+/u },
+			{ type: "kelvin", match: /\u212a+/iu },
+			{ type: "word", match: /(?=[a-z])\w+|_/u },
+			{ type: "space", match: / /u },
+			{ type: "other", match: /[^]/u, lineBreaks: true },
+		]);
+		lexer.reset("k 12 a_1 _ K é");
+		expect(lexAll(lexer).map((t) => t.type)).toEqual([
+			...["kelvin", "space", "number", "space", "word", "space", "word", "space"],
+			...["kelvin", "space", "other"],
+		]);
+	});
 });
@@ -1,24 +1,24 @@
 import { describe, expect, test } from "vitest";
-import { NULL_TOKEN, compile } from "../index";
+import { LexError, NULL_TOKEN, compile, states } from "../index";
 
 describe("errors", () => {
 	test("are thrown by default", () => {
 		const lexer = compile([
 			{ type: "digits", match: /[0-9]+/ },
-			{ type: "nl", match: "\n" },
+			{ type: "nl", match: "\n", lineBreaks: true },
 		]);
 		lexer.reset("123\n456baa");
 		expect(lexer.next()).toMatchObject({ value: "123" });
 		expect(lexer.next()).toMatchObject({ type: "nl" });
 		expect(lexer.next()).toMatchObject({ value: "456" });
-		// expect(() => lexer.next()).toThrow(
-		// 	"invalid syntax at line 2 col 4:\n\n" + "1  123\n" + "2  456baa\n" + "      ^",
-		// );
+		expect(() => lexer.next()).toThrow(
+			"invalid syntax at line 2 col 4:\n\n" + "1  123\n" + "2  456baa\n" + "      ^",
+		);
 	});
 
 	test("can be externally formatted", () => {
 		const lexer = compile([
-			{ type: "letters", match: /[a-z\n]+/ },
+			{ type: "letters", match: /[a-z\n]+/, lineBreaks: true },
 			{ type: "error", option: "error" },
 		]);
 		lexer.reset("abc\ndef\ng 12\n345\n6");
@@ -30,56 +30,155 @@ describe("errors", () => {
 		expect(tok).toMatchObject({
 			type: "error",
 			value: " 12\n345\n6",
-			// lineBreaks: 2,
+			lineBreaks: 2,
 		});
-		// expect(lexer.formatError(tok, "numbers!")).toBe(
-		// 	"numbers! at line 3 col 2:\n\n" +
-		// 		"1  abc\n" +
-		// 		"2  def\n" +
-		// 		"3  g 12\n" +
-		// 		"    ^\n" +
-		// 		"4  345\n" +
-		// 		"5  6",
-		// );
+		expect(lexer.formatError(tok, "numbers!")).toBe(
+			"numbers! at line 3 col 2:\n\n" +
+				"1  abc\n" +
+				"2  def\n" +
+				"3  g 12\n" +
+				"    ^~~\n" +
+				"4  345\n" +
+				"   ~~~\n" +
+				"5  6\n" +
+				"   ^",
+		);
 	});
 
-	// test("can format null at EOF", () => {
-	// 	const lexer = compile({
-	// 		ws: { match: /\s/, lineBreaks: true },
-	// 		word: /[a-z]+/,
-	// 	});
-	// 	lexer.reset("abc\ndef quxx");
-	// 	expect(Array.from(lexer).length).toBe(5);
-	// 	expect(lexer.line).toBe(2);
-	// 	expect(lexer.col).toBe(9);
-	// 	expect(lexer.formatError(undefined, "EOF!")).toBe(
-	// 		"EOF! at line 2 col 9:\n\n" + "1  abc\n" + "2  def quxx\n" + "           ^",
-	// 	);
-	// });
+	test("can format null at EOF", () => {
+		const lexer = compile([
+			{ type: "ws", match: /\s/, lineBreaks: true },
+			{ type: "word", match: /[a-z]+/ },
+		]);
+		lexer.reset("abc\ndef quxx");
+		expect(Array.from(lexer).length).toBe(5);
+		expect(lexer.line).toBe(2);
+		expect(lexer.col).toBe(9);
+		expect(lexer.formatError(NULL_TOKEN, "EOF!")).toBe(
+			"EOF! at line 2 col 9:\n\n" + "1  abc\n" + "2  def quxx\n" + "           ^",
+		);
+	});
 
-	// 	test("can format null even not at EOF", () => {
-	// 		const lexer = compile({
-	// 			ws: { match: /\s/, lineBreaks: true },
-	// 			word: /[a-z]+/,
-	// 		});
-	// 		lexer.reset("abc\ndef quxx\nbar");
-	// 		lexer.next();
-	// 		lexer.next();
-	// 		expect(lexer.line).toBe(2);
-	// 		expect(lexer.col).toBe(1);
-	// 		expect(lexer.formatError(undefined, "oh no!")).toBe(
-	// 			"oh no! at line 2 col 1:\n\n" + "1  abc\n" + "2  def quxx\n" + "   ^\n" + "3  bar",
-	// 		);
-	// 	});
+	test("can format null even not at EOF", () => {
+		const lexer = compile([
+			{ type: "ws", match: /\s/, lineBreaks: true },
+			{ type: "word", match: /[a-z]+/ },
+		]);
+		lexer.reset("abc\ndef quxx\nbar");
+		lexer.next();
+		lexer.next();
+		expect(lexer.line).toBe(2);
+		expect(lexer.col).toBe(1);
+		expect(lexer.formatError(NULL_TOKEN, "oh no!")).toBe(
+			"oh no! at line 2 col 1:\n\n" + "1  abc\n" + "2  def quxx\n" + "   ^\n" + "3  bar",
+		);
+	});
 
-	// 	test("seek to end of buffer when thrown", () => {
-	// 		const lexer = compile({
-	// 			digits: /[0-9]+/,
-	// 		});
-	// 		lexer.reset("invalid");
-	// 		expect(() => lexer.next()).toThrow();
-	// 		expect(lexer.next()).toBe(undefined);
-	// 	});
+	test("can format offsets", () => {
+		const lexer = compile([{ type: "any", match: /[^]+/, lineBreaks: true }]);
+		lexer.reset("one\ntwo\nthree\nfour\nfive\nsix");
+		expect(lexer.formatError(10, "here", { contextLines: 1 })).toBe(
+			"here at line 3 col 3:\n\n" + "2  two\n" + "3  three\n" + "     ^\n" + "4  four",
+		);
+		expect(lexer.formatError(0, "start", { contextLines: 0 })).toBe(
+			"start at line 1 col 1:\n\n" + "1  one\n" + "   ^",
+		);
+		expect(() => lexer.formatError(100)).toThrow("out of bounds");
+	});
+
+	test("pads line numbers", () => {
+		const lexer = compile([{ type: "any", match: /[^]+/, lineBreaks: true }]);
+		lexer.reset("a\n".repeat(9) + "bc\nd");
+		expect(lexer.formatError(19, "oops", { contextLines: 1 })).toBe(
+			"oops at line 10 col 2:\n\n" + " 9  a\n" + "10  bc\n" + "     ^\n" + "11  d",
+		);
+	});
+
+	test("uses the position of a restored snapshot", () => {
+		const lexer = compile([{ type: "any", match: /[^]+/, lineBreaks: true }]);
+		lexer.reset("bc\nd", { line: 4, col: 7 });
+		const tok = lexer.next();
+		expect(lexer.formatError(tok, "here")).toBe(
+			"here at line 4 col 7:\n\n" + "4  bc\n" + "   ^~\n" + "5  d\n" + "   ^",
+		);
+	});
+
+	test("are located in data resumed from a snapshot", () => {
+		const lexer = compile([
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "space", match: " " },
+		]);
+		lexer.reset("abc def");
+		lexer.next();
+		lexer.reset(" 123", lexer.save());
+		expect(lexer.next()).toMatchObject({ type: "space", offset: 3 });
+		expect(() => lexer.next()).toThrow(
+			expect.objectContaining({
+				code: "UNMATCHED_INPUT",
+				offset: 4,
+				message: "invalid syntax at line 1 col 5:\n\n" + "1   123\n" + "    ^",
+			}),
+		);
+	});
+
+	test("are located in fed chunks", () => {
+		const lexer = compile([
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "space", match: " " },
+		]);
+		lexer.reset();
+		expect([...lexer.feed("abc ")].map((t) => t.value)).toEqual(["abc"]);
+		const values: string[] = [];
+		expect(() => {
+			for (const token of lexer.feed("def 1")) values.push(token.value);
+		}).toThrow("invalid syntax at line 1 col 9:");
+		expect(values).toEqual([" ", "def", " "]);
+	});
+
+	test("seek to end of buffer when thrown", () => {
+		const lexer = compile([{ type: "digits", match: /[0-9]+/ }]);
+		lexer.reset("invalid");
+		expect(() => lexer.next()).toThrow();
+		expect(lexer.next()).toBe(NULL_TOKEN);
+	});
+
+	test("are structured", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "word", match: /[a-z]+/ },
+					{ type: "open", match: "(", push: "inner" },
+				],
+				inner: [
+					{ type: "digits", match: /[0-9]+/ },
+					{ type: "close", match: ")", pop: 1 },
+				],
+			},
+			"main",
+		);
+		lexer.reset("foo(12ab)");
+		lexer.next();
+		lexer.next();
+		lexer.next();
+		let error: unknown;
+		try {
+			lexer.next();
+		} catch (e) {
+			error = e;
+		}
+		expect(error).toBeInstanceOf(LexError);
+		expect(error).toMatchObject({
+			name: "LexError",
+			code: "UNMATCHED_INPUT",
+			offset: 6,
+			line: 1,
+			col: 7,
+			stateName: "inner",
+			stateStack: ["main"],
+			text: "ab)",
+			expected: ["digits", "close"],
+		});
+	});
 
 	test("can be tokens", () => {
 		const lexer = compile([
@@ -0,0 +1,95 @@
+import { describe, expect, test } from "vitest";
+import { compile, states } from "../index";
+import { lexAll } from "./utils";
+
+describe("fast single-character matching", () => {
+	test("matches leading single characters", () => {
+		const lexer = compile([
+			{ type: "paren", match: ["(", ")"] },
+			{ type: "comma", match: "," },
+			{ type: "word", match: /[a-z]+/ },
+		]);
+		lexer.reset("(a,b)");
+		expect(lexAll(lexer).map((t) => [t.type, t.value, t.offset, t.col])).toEqual([
+			["paren", "(", 0, 1],
+			["word", "a", 1, 2],
+			["comma", ",", 2, 3],
+			["word", "b", 3, 4],
+			["paren", ")", 4, 5],
+		]);
+	});
+
+	test("respects rule order", () => {
+		const lexer = compile([
+			{ type: "star", match: "*" },
+			{ type: "pow", match: "**" },
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "x", match: "x" },
+		]);
+		lexer.reset("**x");
+		expect(lexAll(lexer).map((t) => t.type)).toEqual(["star", "star", "word"]);
+
+		const ordered = compile([
+			{ type: "pow", match: "**" },
+			{ type: "star", match: "*" },
+		]);
+		ordered.reset("***");
+		expect(lexAll(ordered).map((t) => t.type)).toEqual(["pow", "star"]);
+	});
+
+	test("keeps the first rule for a character", () => {
+		const lexer = compile([
+			{ type: "a", match: ["-", "+"] },
+			{ type: "b", match: "-" },
+		]);
+		lexer.reset("-+");
+		expect(lexAll(lexer).map((t) => t.type)).toEqual(["a", "a"]);
+	});
+
+	test("works with fallback tokens", () => {
+		const lexer = compile([
+			{ type: "dot", match: "." },
+			{ type: "text", option: "fallback" },
+		]);
+		lexer.reset("foo.bar.");
+		expect(lexAll(lexer).map((t) => [t.type, t.value])).toEqual([
+			["text", "foo"],
+			["dot", "."],
+			["text", "bar"],
+			["dot", "."],
+		]);
+	});
+
+	test("skips and switches states", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "space", match: " ", option: "skip" },
+					{ type: "open", match: "[", push: "list" },
+					{ type: "word", match: /[a-z]+/ },
+				],
+				list: [
+					{ type: "close", match: "]", pop: 1 },
+					{ type: "sep", match: ",", option: "skip" },
+					{ type: "digit", match: /[0-9]/ },
+				],
+			},
+			"main",
+		);
+		lexer.reset("a [1,2] b");
+		expect(lexAll(lexer).map((t) => t.type)).toEqual([
+			"word",
+			"open",
+			"digit",
+			"digit",
+			"close",
+			"word",
+		]);
+	});
+
+	test("does not apply to case-insensitive rules", () => {
+		const lexer = compile([{ type: "x", match: "x", ignoreCase: true }]);
+		lexer.reset("xX");
+		expect(lexAll(lexer).map((t) => t.value)).toEqual(["x", "X"]);
+	});
+});
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "vitest";
+import { compile, states } from "../index";
+import { lexAll } from "./utils";
+
+describe("case-insensitive rules", () => {
+	test("match RegExps with the /i flag", () => {
+		const lexer = compile([
+			{ type: "select", match: /select\b/i },
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "space", match: / +/ },
+		]);
+		lexer.reset("SELECT Select select selection");
+		expect(lexAll(lexer).map((t) => [t.type, t.value])).toEqual([
+			["select", "SELECT"],
+			["space", " "],
+			["select", "Select"],
+			["space", " "],
+			["select", "select"],
+			["space", " "],
+			["word", "selection"],
+		]);
+	});
+
+	test("match literals with the ignoreCase option", () => {
+		const lexer = compile([
+			{ type: "keyword", match: ["print", "goto", "let"], ignoreCase: true },
+			{ type: "name", match: /[A-Za-z]+\$?/ },
+			{ type: "op", match: ["=", "+"] },
+			{ type: "space", match: / +/, option: "skip" },
+		]);
+		lexer.reset("LET a$ = B PRINT let Goto");
+		expect(lexAll(lexer).map((t) => [t.type, t.value])).toEqual([
+			["keyword", "LET"],
+			["name", "a$"],
+			["op", "="],
+			["name", "B"],
+			["keyword", "PRINT"],
+			["keyword", "let"],
+			["keyword", "Goto"],
+		]);
+	});
+
+	test("apply to the RegExps of the rule", () => {
+		const lexer = compile([{ type: "hex", match: /0x[0-9a-f]+/, ignoreCase: true }]);
+		lexer.reset("0XdeadBEEF");
+		expect(lexer.next()).toMatchObject({ type: "hex", value: "0XdeadBEEF" });
+	});
+
+	test("keep first-match semantics across rules", () => {
+		const lexer = compile([
+			{ type: "lower", match: /[a-z]+/ },
+			{ type: "keyword", match: "and", ignoreCase: true },
+			{ type: "any", match: /[A-Za-z]+/ },
+			{ type: "end", match: "END", ignoreCase: true },
+			{ type: "space", match: / +/, option: "skip" },
+		]);
+		lexer.reset("and AND End end");
+		expect(lexAll(lexer).map((t) => [t.type, t.value])).toEqual([
+			["lower", "and"],
+			["keyword", "AND"],
+			["any", "End"],
+			["lower", "end"],
+		]);
+	});
+
+	test("can mix sensitivities within a rule", () => {
+		const lexer = compile([
+			{ type: "word", match: [/null/i, "True", /[a-z]+/] },
+			{ type: "space", match: / +/, option: "skip" },
+		]);
+		lexer.reset("NULL True true TRUE");
+		expect(lexer.next()).toMatchObject({ type: "word", value: "NULL" });
+		expect(lexer.next()).toMatchObject({ type: "word", value: "True" });
+		expect(lexer.next()).toMatchObject({ type: "word", value: "true" });
+		expect(() => lexer.next()).toThrow("invalid syntax");
+	});
+
+	test("work with fallback tokens", () => {
+		const lexer = compile([
+			{ type: "text", option: "fallback" },
+			{ type: "tag", match: /<br>/i },
+			{ type: "amp", match: "&" },
+		]);
+		lexer.reset("a<BR>b&c<br>");
+		expect(lexAll(lexer).map((t) => [t.type, t.value, t.offset])).toEqual([
+			["text", "a", 0],
+			["tag", "<BR>", 1],
+			["text", "b", 5],
+			["amp", "&", 6],
+			["text", "c", 7],
+			["tag", "<br>", 8],
+		]);
+	});
+
+	test("work with unicode and states", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "begin", match: "begin", ignoreCase: true, push: "block" },
+					{ type: "word", match: /\p{L}+/u },
+					{ type: "space", match: / +/u, option: "skip" },
+				],
+				block: [
+					{ type: "end", match: /énd/iu, pop: 1 },
+					{ type: "word", match: /\p{L}+/u },
+					{ type: "space", match: / +/u, option: "skip" },
+				],
+			},
+			"main",
+		);
+		lexer.reset("BEGIN straße ÉND x");
+		expect(lexAll(lexer).map((t) => [t.type, t.value])).toEqual([
+			["begin", "BEGIN"],
+			["word", "straße"],
+			["end", "ÉND"],
+			["word", "x"],
+		]);
+	});
+});
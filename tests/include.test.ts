@@ -1,154 +1,216 @@
-// describe("include", () => {
-// 	test("handles fast matching", () => {
-// 		const l = states({
-// 			main: {
-// 				"{": "{",
-// 				include: "shared",
-// 			},
-// 			shared: {
-// 				"*": "*",
-// 				word: /[a-z]+/,
-// 			},
-// 		});
+import { describe, expect, test } from "vitest";
+import { states } from "../index";
 
-// 		l.reset("{foo*");
-// 		Array.from(l);
-// 	});
+describe("include", () => {
+	test("handles fast matching", () => {
+		const l = states(
+			{
+				main: [{ type: "{", match: "{" }, { include: "shared" }],
+				shared: [
+					{ type: "*", match: "*" },
+					{ type: "word", match: /[a-z]+/ },
+				],
+			},
+			"main",
+		);
 
-// 	test("handles multiple states with same fast match", () => {
-// 		const l = states({
-// 			main: {
-// 				include: "shared",
-// 				"{": { match: "{", push: "inner" },
-// 			},
-// 			inner: {
-// 				"}": { match: "}", pop: 1 },
-// 				include: "shared",
-// 			},
-// 			shared: {
-// 				"*": "*",
-// 				word: /[a-z]+/,
-// 			},
-// 		});
+		l.reset("{foo*");
+		expect(Array.from(l).map((tok) => tok.type)).toEqual(["{", "word", "*"]);
+	});
 
-// 		l.reset("foo{bar*}");
-// 		Array.from(l);
-// 	});
+	test("handles multiple states with same fast match", () => {
+		const l = states(
+			{
+				main: [{ include: "shared" }, { type: "{", match: "{", push: "inner" }],
+				inner: [{ type: "}", match: "}", pop: 1 }, { include: "shared" }],
+				shared: [
+					{ type: "*", match: "*" },
+					{ type: "word", match: /[a-z]+/ },
+				],
+			},
+			"main",
+		);
 
-// 	test("handles cycles", () => {
-// 		const lexer = states({
-// 			$all: {
-// 				ws: { match: /\s+/, lineBreaks: true },
-// 			},
-// 			a: {
-// 				a: /a\w/,
-// 				switch: { match: "|", next: "b" },
-// 				include: "b",
-// 			},
-// 			b: {
-// 				b: /\wb/,
-// 				switch: { match: "|", next: "a" },
-// 				include: "a",
-// 			},
-// 		});
+		l.reset("foo{bar*}");
+		expect(Array.from(l).map((tok) => tok.type)).toEqual(["word", "{", "word", "*", "}"]);
+	});
 
-// 		lexer.reset("ab ac bb ac cb | ab ac bb ac cb");
-// 		expect(
-// 			Array.from(lexer)
-// 				.filter((tok) => tok.type !== "ws")
-// 				.map((tok) => tok.type + " " + tok.value),
-// 		).toEqual([
-// 			"a ab",
-// 			"a ac",
-// 			"b bb",
-// 			"a ac",
-// 			"b cb",
-// 			"switch |",
-// 			"b ab",
-// 			"a ac",
-// 			"b bb",
-// 			"a ac",
-// 			"b cb",
-// 		]);
-// 	});
+	test("handles cycles", () => {
+		const lexer = states(
+			{
+				$all: [{ type: "ws", match: /\s+/, lineBreaks: true }],
+				a: [
+					{ type: "a", match: /a\w/ },
+					{ type: "switch", match: "|", next: "b" },
+					{ include: "b" },
+				],
+				b: [
+					{ type: "b", match: /\wb/ },
+					{ type: "switch", match: "|", next: "a" },
+					{ include: "a" },
+				],
+			},
+			"a",
+		);
 
-// 	test("JS example", () => {
-// 		const lexer = states({
-// 			$all: { err: error },
-// 			main: {
-// 				include: "std",
-// 			},
-// 			brace: {
-// 				include: "std",
-// 				rbrace: { match: "}", pop: 1 },
-// 			},
-// 			template: {
-// 				include: "std",
-// 				tmid: { match: /}(?:\\[^]|[^\\`])*?\${/, value: (s) => s.slice(1, -2) },
-// 				tend: {
-// 					match: /}(?:\\[^]|[^\\`])*?`/,
-// 					value: (s) => s.slice(1, -1),
-// 					pop: 1,
-// 				},
-// 			},
-// 			std: {
-// 				include: ["comment", "ws"],
-// 				id: /[A-Za-z]\w*/,
-// 				op: /[!=]==|\+[+=]?|-[-=]|<<=?|>>>?=?|&&?|\|\|?|[<>!=/*&|^%]=|[~!,/*^?:%]/,
-// 				tbeg: {
-// 					match: /`(?:\\[^]|[^\\`])*?\${/,
-// 					value: (s) => s.slice(1, -2),
-// 					push: "template",
-// 				},
-// 				tsim: { match: /`(?:\\[^]|[^\\`])*?`/, value: (s) => s.slice(1, -1) },
-// 				str: {
-// 					match: /'(?:\\[^]|[^\\'])*?'|"(?:\\[^]|[^\\"])*?"/,
-// 					value: (s) => s.slice(1, -1),
-// 				},
-// 				lbrace: { match: "{", push: "brace" },
-// 			},
-// 			ws: {
-// 				ws: { match: /\s+/, lineBreaks: true },
-// 			},
-// 			comment: {
-// 				lc: /\/\/.+/,
-// 				bc: /\/\*[^]*?\*\//,
-// 			},
-// 		});
+		lexer.reset("ab ac bb ac cb | ab ac bb ac cb");
+		expect(
+			Array.from(lexer)
+				.filter((tok) => tok.type !== "ws")
+				.map((tok) => tok.type + " " + tok.value),
+		).toEqual([
+			"a ab",
+			"a ac",
+			"b bb",
+			"a ac",
+			"b cb",
+			"switch |",
+			"b ab",
+			"a ac",
+			"b bb",
+			"a ac",
+			"b cb",
+		]);
+	});
 
-// 		lexer.reset(
-// 			'`just ` + /* comment */ // line\n`take ${one} and ${a}${two} and a` + {three: `${{four: five}}}`} / "six"',
-// 		);
-// 		expect(
-// 			Array.from(lexer)
-// 				.filter((tok) => tok.type !== "ws")
-// 				.map((tok) => tok.type + " " + tok.value),
-// 		).toEqual([
-// 			"tsim just ",
-// 			"op +",
-// 			"bc /* comment */",
-// 			"lc // line",
-// 			"tbeg take ",
-// 			"id one",
-// 			"tmid  and ",
-// 			"id a",
-// 			"tmid ",
-// 			"id two",
-// 			"tend  and a",
-// 			"op +",
-// 			"lbrace {",
-// 			"id three",
-// 			"op :",
-// 			"tbeg ",
-// 			"lbrace {",
-// 			"id four",
-// 			"op :",
-// 			"id five",
-// 			"rbrace }",
-// 			"tend }",
-// 			"rbrace }",
-// 			"op /",
-// 			"str six",
-// 		]);
-// 	});
-// });
+	test("shares $all rules", () => {
+		const lexer = states(
+			{
+				$all: [
+					{ type: "ws", match: / +/, option: "skip" },
+					{ type: "err", option: "error" },
+				],
+				main: [
+					{ type: "word", match: /[a-z]+/ },
+					{ type: "lpar", match: "(", push: "inner" },
+				],
+				inner: [
+					{ type: "num", match: /[0-9]+/ },
+					{ type: "rpar", match: ")", pop: 1 },
+				],
+			},
+			"main",
+		);
+
+		lexer.reset("foo ( 1 2 ) bar !");
+		expect(Array.from(lexer).map((tok) => tok.type)).toEqual([
+			"word",
+			"lpar",
+			"num",
+			"num",
+			"rpar",
+			"word",
+			"err",
+		]);
+	});
+
+	test("checks included states", () => {
+		expect(() =>
+			states({
+				// @ts-expect-error unknown state
+				main: [{ include: "missing" }],
+			}),
+		).toThrow("Cannot include nonexistent state 'missing' (in state 'main')");
+		expect(() =>
+			states({
+				$all: [{ type: "x", match: "x", next: "main" }],
+				main: [{ type: "y", match: "y" }],
+			}),
+		).not.toThrow();
+	});
+
+	test("JS example", () => {
+		const lexer = states(
+			{
+				$all: [{ type: "err", option: "error" }],
+				main: [{ include: "std" }],
+				brace: [{ include: "std" }, { type: "rbrace", match: "}", pop: 1 }],
+				template: [
+					{ include: "std" },
+					{
+						type: "tmid",
+						match: /}(?:\\[^]|[^\\`])*?\${/,
+						lineBreaks: true,
+						value: (s) => s.slice(1, -2),
+					},
+					{
+						type: "tend",
+						match: /}(?:\\[^]|[^\\`])*?`/,
+						lineBreaks: true,
+						value: (s) => s.slice(1, -1),
+						pop: 1,
+					},
+				],
+				std: [
+					{ include: ["comment", "ws"] },
+					{ type: "id", match: /[A-Za-z]\w*/ },
+					{
+						type: "op",
+						match: /[!=]==|\+[+=]?|-[-=]|<<=?|>>>?=?|&&?|\|\|?|[<>!=/*&|^%]=|[~!,/*^?:%]/,
+					},
+					{
+						type: "tbeg",
+						match: /`(?:\\[^]|[^\\`])*?\${/,
+						lineBreaks: true,
+						value: (s) => s.slice(1, -2),
+						push: "template",
+					},
+					{
+						type: "tsim",
+						match: /`(?:\\[^]|[^\\`])*?`/,
+						lineBreaks: true,
+						value: (s) => s.slice(1, -1),
+					},
+					{
+						type: "str",
+						match: /'(?:\\[^]|[^\\'])*?'|"(?:\\[^]|[^\\"])*?"/,
+						lineBreaks: true,
+						value: (s) => s.slice(1, -1),
+					},
+					{ type: "lbrace", match: "{", push: "brace" },
+				],
+				ws: [{ type: "ws", match: /\s+/, lineBreaks: true }],
+				comment: [
+					{ type: "lc", match: /\/\/.+/ },
+					{ type: "bc", match: /\/\*[^]*?\*\//, lineBreaks: true },
+				],
+			},
+			"main",
+		);
+
+		lexer.reset(
+			'`just ` + /* comment */ // line\n`take ${one} and ${a}${two} and a` + {three: `${{four: five}}}`} / "six"',
+		);
+		expect(
+			Array.from(lexer)
+				.filter((tok) => tok.type !== "ws")
+				.map((tok) => tok.type + " " + tok.value),
+		).toEqual([
+			"tsim just ",
+			"op +",
+			"bc /* comment */",
+			"lc // line",
+			"tbeg take ",
+			"id one",
+			"tmid  and ",
+			"id a",
+			"tmid ",
+			"id two",
+			"tend  and a",
+			"op +",
+			"lbrace {",
+			"id three",
+			"op :",
+			"tbeg ",
+			"lbrace {",
+			"id four",
+			"op :",
+			"id five",
+			"rbrace }",
+			"tend }",
+			"rbrace }",
+			"op /",
+			"str six",
+		]);
+	});
+});
@@ -30,7 +30,7 @@ describe("keywords", () => {
 					})(x) || "identifier",
 				match: /[a-zA-Z]+/,
 			},
-			{ type: "space", match: /\s+/ },
+			{ type: "space", match: /\s+/, lineBreaks: true },
 		]);
 		lexer.reset("foo def");
 		expect(Array.from(lexer).map((t) => t.type)).toEqual(["identifier", "space", "kw-def"]);
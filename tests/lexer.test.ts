@@ -1,5 +1,5 @@
 import { describe, expect, test } from "vitest";
-import { compile } from "../index";
+import { compile, states } from "../index";
 import { lexAll } from "./utils";
 
 describe("lexer", () => {
@@ -42,6 +42,7 @@ describe("lexer", () => {
 			{
 				type: "file",
 				match: /[^]+/,
+				lineBreaks: true,
 			},
 		]).reset("I like to moo\na lot");
 		expect(lexer.next()?.value).toBe("I like to moo\na lot");
@@ -52,7 +53,7 @@ describe("lexer", () => {
 			{ type: "x_eol", match: /x$/ },
 			{ type: "x", match: /x/ },
 			{ type: "WS", match: / +/ },
-			{ type: "NL", match: /\n/ },
+			{ type: "NL", match: /\n/, lineBreaks: true },
 			{ type: "other", match: /[^ \n]+/ },
 		]).reset("x \n x\n yz x");
 		const tokens = lexAll(lexer).filter((t) => t.type !== "WS");
@@ -71,7 +72,7 @@ describe("lexer", () => {
 			{ type: "x_bol", match: /^x/ },
 			{ type: "x", match: /x/ },
 			{ type: "WS", match: / +/ },
-			{ type: "NL", match: /\n/ },
+			{ type: "NL", match: /\n/, lineBreaks: true },
 			{ type: "other", match: /[^ \n]+/ },
 		]).reset("x \n x\nx yz");
 		const tokens = lexAll(lexer).filter((t) => t.type !== "WS");
@@ -108,4 +109,67 @@ describe("lexer", () => {
 		expect(lexer.next()).toMatchObject({ value: "9", offset: 3 });
 		expect(clone.next()).toMatchObject({ value: "2", offset: 1 });
 	});
+
+	test("clones start in the start state", () => {
+		const lexer = states(
+			{
+				main: [{ type: "open", match: "(", next: "inner" }],
+				inner: [{ type: "close", match: ")", next: "main" }],
+			},
+			"main",
+		);
+		lexer.reset("(");
+		lexer.next();
+		expect(lexer.clone().stateName).toBe("main");
+	});
+});
+
+describe("fork", () => {
+	const lexer = states(
+		{
+			main: [
+				{ type: "word", match: /\w+/ },
+				{ type: "open", match: "(", push: "inner" },
+			],
+			inner: [
+				{ type: "text", match: /[^)]+/, lineBreaks: true },
+				{ type: "close", match: ")", pop: 1 },
+				{ type: "error", option: "fallback" },
+			],
+		},
+		"main",
+	);
+
+	test("forks at the same position", () => {
+		lexer.reset("a(bc)d");
+		lexer.next();
+		lexer.next();
+		lexer.next();
+		const fork = lexer.fork();
+		expect(fork.save()).toEqual(lexer.save());
+		expect(lexAll(fork)).toEqual(lexAll(lexer));
+	});
+
+	test("forks independent lexers", () => {
+		lexer.reset("a(b)c");
+		lexer.next();
+		lexer.next();
+		const fork = lexer.fork();
+		fork.popState();
+		expect(fork.next()).toMatchObject({ type: "word", value: "b" });
+		expect(lexer.stack).toEqual(["main"]);
+		expect(lexer.next()).toMatchObject({ type: "text", value: "b" });
+		expect(fork.stack).toEqual([]);
+	});
+
+	test("forks peeked tokens and marks", () => {
+		lexer.reset("a(b)c");
+		const mark = lexer.mark();
+		lexer.peek(3);
+		const fork = lexer.fork();
+		expect(fork.next()).toBe(lexer.next());
+		lexer.commit(mark);
+		fork.rewind(mark);
+		expect(lexAll(fork).map((t) => t.value)).toEqual(["a", "(", "b", ")", "c"]);
+	});
 });
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "vitest";
+import { LineIndex } from "../index";
+
+describe("LineIndex", () => {
+	const text = "ab\ncdé\n\n𝒳y😀z";
+	const index = new LineIndex(text);
+
+	test("indexes lines", () => {
+		expect(index.lineCount).toBe(4);
+		expect([1, 2, 3, 4].map((line) => index.lineText(line))).toEqual(["ab", "cdé", "", "𝒳y😀z"]);
+		expect(index.lineStart(2)).toBe(3);
+		expect(index.lineEnd(2)).toBe(6);
+		expect(() => index.lineStart(5)).toThrowError(RangeError);
+	});
+
+	test("converts offsets to positions", () => {
+		expect(index.positionAt(0)).toEqual({ line: 1, col: 1 });
+		expect(index.positionAt(2)).toEqual({ line: 1, col: 3 });
+		expect(index.positionAt(3)).toEqual({ line: 2, col: 1 });
+		expect(index.positionAt(7)).toEqual({ line: 3, col: 1 });
+		expect(index.positionAt(text.length)).toEqual({ line: 4, col: 7 });
+		expect(() => index.positionAt(text.length + 1)).toThrowError(RangeError);
+	});
+
+	test("counts columns in code points and UTF-8 bytes", () => {
+		// After 𝒳y😀
+		const offset = text.indexOf("z");
+		expect(index.positionAt(offset)).toEqual({ line: 4, col: 6 });
+		expect(index.positionAt(offset, "codepoint")).toEqual({ line: 4, col: 4 });
+		expect(index.positionAt(offset, "utf8")).toEqual({ line: 4, col: 10 });
+		expect(index.positionAt(6, "utf8")).toEqual({ line: 2, col: 5 });
+	});
+
+	test("converts positions to offsets", () => {
+		const z = text.indexOf("z");
+		expect(index.offsetAt(4, 6)).toBe(z);
+		expect(index.offsetAt(4, 4, "codepoint")).toBe(z);
+		expect(index.offsetAt(4, 10, "utf8")).toBe(z);
+		// Inside 😀
+		expect(index.offsetAt(4, 7, "utf8")).toBe(z - 2);
+		// Past the end of the line
+		expect(index.offsetAt(1, 10)).toBe(2);
+		expect(index.offsetAt(2, 10, "utf8")).toBe(6);
+	});
+
+	test("round-trips every offset", () => {
+		for (const encoding of ["utf16", "codepoint", "utf8"] as const) {
+			for (let offset = 0; offset <= text.length; offset++) {
+				// Skip offsets inside surrogate pairs
+				if (encoding !== "utf16" && /[\uDC00-\uDFFF]/.test(text.charAt(offset))) continue;
+				const { line, col } = index.positionAt(offset, encoding);
+				expect(index.offsetAt(line, col, encoding)).toBe(offset);
+			}
+		}
+	});
+
+	test("updates lines on edits", () => {
+		const edits = [
+			{ offset: 0, length: 0, text: "\n" },
+			{ offset: 2, length: 4, text: "x\ny\n" },
+			{ offset: 5, length: 3, text: "" },
+			{ offset: 0, length: 0, text: "" },
+			{ offset: 4, length: 1, text: "\n\n" },
+		];
+		const edited = new LineIndex(text);
+		let expected = text;
+		for (const edit of edits) {
+			edited.edit(edit);
+			expected =
+				expected.slice(0, edit.offset) + edit.text + expected.slice(edit.offset + edit.length);
+			const fresh = new LineIndex(expected);
+			expect(edited.text).toBe(expected);
+			expect(edited.lineCount).toBe(fresh.lineCount);
+			for (let line = 1; line <= fresh.lineCount; line++) {
+				expect(edited.lineStart(line)).toBe(fresh.lineStart(line));
+			}
+		}
+		expect(() => edited.edit({ offset: 0, length: 100, text: "" })).toThrowError(RangeError);
+	});
+});
@@ -1,52 +1,132 @@
-// describe("line numbers", () => {
-// 	const testLexer = compile({
-// 		WS: / +/,
-// 		word: /[a-z]+/,
-// 		NL: { match: /\n/, lineBreaks: true },
-// 	});
-
-// 	test("counts line numbers", () => {
-// 		const tokens = lexAll(testLexer.reset("cow\nfarm\ngrass"));
-// 		expect(tokens.map((t) => t.value)).toEqual(["cow", "\n", "farm", "\n", "grass"]);
-// 		expect(tokens.map((t) => t.lineBreaks)).toEqual([0, 1, 0, 1, 0]);
-// 		expect(tokens.map((t) => t.line)).toEqual([1, 1, 2, 2, 3]);
-// 		expect(tokens.map((t) => t.col)).toEqual([1, 4, 1, 5, 1]);
-// 	});
-
-// 	test("tracks columns", () => {
-// 		const lexer = compile({
-// 			WS: / +/,
-// 			thing: { match: /[a-z\n]+/, lineBreaks: true },
-// 		});
-// 		lexer.reset("pie cheese\nsalad what\n ");
-// 		expect(lexer.next()).toMatchObject({ value: "pie", col: 1 });
-// 		expect(lexer.next()).toMatchObject({ value: " ", col: 4 });
-// 		expect(lexer.next()).toMatchObject({
-// 			value: "cheese\nsalad",
-// 			col: 5,
-// 			line: 1,
-// 		});
-// 		expect(lexer.next()).toMatchObject({ value: " ", col: 6, line: 2 });
-// 		expect(lexer.next()).toMatchObject({ value: "what\n", col: 7, line: 2 });
-// 		expect(lexer.next()).toMatchObject({ value: " ", col: 1, line: 3 });
-// 	});
-
-// 	test("tries to warn if rule matches \\n", () => {
-// 		expect(() => compile({ whitespace: /\s+/ })).toThrow();
-// 		expect(() => compile({ multiline: /q[^]*/ })).not.toThrow();
-// 	});
-
-// 	test("resets line/col", () => {
-// 		const lexer = compile({
-// 			WS: / +/,
-// 			word: /[a-z]+/,
-// 			NL: { match: "\n", lineBreaks: true },
-// 		});
-// 		lexer.reset("potatoes\nsalad");
-// 		expect(lexer).toMatchObject({ buffer: "potatoes\nsalad", line: 1, col: 1 });
-// 		lexAll(lexer);
-// 		expect(lexer).toMatchObject({ line: 2, col: 6 });
-// 		lexer.reset("cheesecake");
-// 		expect(lexer).toMatchObject({ buffer: "cheesecake", line: 1, col: 1 });
-// 	});
-// });
+import { describe, expect, test } from "vitest";
+import { compile, states, type Token } from "../index";
+import { lexAll } from "./utils";
+
+describe("line numbers", () => {
+	const testLexer = compile([
+		{ type: "WS", match: / +/ },
+		{ type: "word", match: /[a-z]+/ },
+		{ type: "NL", match: /\n/, lineBreaks: true },
+	]);
+
+	test("counts line numbers", () => {
+		const tokens = lexAll(testLexer.reset("cow\nfarm\ngrass"));
+		expect(tokens.map((t) => t.value)).toEqual(["cow", "\n", "farm", "\n", "grass"]);
+		expect(tokens.map((t) => t.lineBreaks)).toEqual([0, 1, 0, 1, 0]);
+		expect(tokens.map((t) => t.line)).toEqual([1, 1, 2, 2, 3]);
+		expect(tokens.map((t) => t.col)).toEqual([1, 4, 1, 5, 1]);
+	});
+
+	test("tracks columns", () => {
+		const lexer = compile([
+			{ type: "WS", match: / +/ },
+			{ type: "thing", match: /[a-z\n]+/, lineBreaks: true },
+		]);
+		lexer.reset("pie cheese\nsalad what\n ");
+		expect(lexer.next()).toMatchObject({ value: "pie", col: 1 });
+		expect(lexer.next()).toMatchObject({ value: " ", col: 4 });
+		expect(lexer.next()).toMatchObject({
+			value: "cheese\nsalad",
+			col: 5,
+			line: 1,
+		});
+		expect(lexer.next()).toMatchObject({ value: " ", col: 6, line: 2 });
+		expect(lexer.next()).toMatchObject({ value: "what\n", col: 7, line: 2 });
+		expect(lexer.next()).toMatchObject({ value: " ", col: 1, line: 3 });
+	});
+
+	test("resets line/col", () => {
+		const lexer = compile([
+			{ type: "WS", match: / +/ },
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "NL", match: "\n", lineBreaks: true },
+		]);
+		lexer.reset("potatoes\nsalad");
+		expect(lexer).toMatchObject({ data: "potatoes\nsalad", line: 1, col: 1 });
+		lexAll(lexer);
+		expect(lexer).toMatchObject({ line: 2, col: 6 });
+		lexer.reset("cheesecake");
+		expect(lexer).toMatchObject({ data: "cheesecake", line: 1, col: 1 });
+	});
+
+	test("counts skipped line breaks", () => {
+		const lexer = compile([
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "space", match: /\s+/, option: "skip", lineBreaks: true },
+		]);
+		lexer.reset("one\n  two\n\nthree");
+		expect(lexAll(lexer).map((t) => [t.value, t.line, t.col])).toEqual([
+			["one", 1, 1],
+			["two", 2, 3],
+			["three", 4, 1],
+		]);
+	});
+
+	test("carries positions across state switches", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "word", match: /\w+/ },
+					{ type: "open", match: "(", push: "inner" },
+					{ type: "NL", match: "\n", lineBreaks: true },
+				],
+				inner: [
+					{ type: "text", match: /[^)]+/, lineBreaks: true },
+					{ type: "close", match: ")", pop: 1 },
+				],
+			},
+			"main",
+		);
+		lexer.reset("a(b\nc)d");
+		expect(lexAll(lexer).map((t) => [t.value, t.line, t.col])).toEqual([
+			["a", 1, 1],
+			["(", 1, 2],
+			["b\nc", 1, 3],
+			[")", 2, 2],
+			["d", 2, 3],
+		]);
+	});
+});
+
+describe("end positions", () => {
+	const end = (t: Token) => [t.value, t.endOffset, t.endLine, t.endCol];
+
+	test("records where tokens end", () => {
+		const lexer = compile([
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "NL", match: "\n", lineBreaks: true },
+		]);
+		const tokens = lexAll(lexer.reset("cow\nfarm"));
+		expect(tokens.map(end)).toEqual([
+			["cow", 3, 1, 4],
+			["\n", 4, 2, 1],
+			["farm", 8, 2, 5],
+		]);
+	});
+
+	test("records where multiline tokens end", () => {
+		const lexer = compile([{ type: "text", match: /[a-z\n]+/, lineBreaks: true }]);
+		expect(lexAll(lexer.reset("ab\ncd\ne")).map(end)).toEqual([["ab\ncd\ne", 7, 3, 2]]);
+		expect(lexAll(lexer.reset("ab\n")).map(end)).toEqual([["ab\n", 3, 2, 1]]);
+	});
+
+	test("records where fallback and error tokens end", () => {
+		const lexer = compile([
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "other", option: "fallback" },
+		]);
+		expect(lexAll(lexer.reset("12\n3ab")).map(end)).toEqual([
+			["12\n3", 4, 2, 2],
+			["ab", 6, 2, 4],
+		]);
+
+		const errorLexer = compile([
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "error", option: "error" },
+		]);
+		expect(lexAll(errorLexer.reset("ab\n12")).map(end)).toEqual([
+			["ab", 2, 1, 3],
+			["\n12", 5, 2, 3],
+		]);
+	});
+});
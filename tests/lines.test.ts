@@ -0,0 +1,179 @@
+import { describe, expect, test } from "vitest";
+import { compile, states, type Lexer, type LineState, type Token } from "../index";
+import { lexAll } from "./utils";
+
+describe("tokenizeLine", () => {
+	const lexer = states(
+		{
+			main: [
+				{ type: "WS", match: /[ \t]+/ },
+				{ type: "NL", match: "\n", lineBreaks: true },
+				{ type: "word", match: /\w+/ },
+				{ type: "op", match: /[=;+{]/ },
+				{ type: "close", match: "}", pop: 1 },
+				{ type: "commentStart", match: "/*", push: "comment" },
+				{ type: "templateStart", match: "`", push: "template" },
+			],
+			comment: [
+				{ type: "commentEnd", match: "*/", pop: 1 },
+				{ type: "NL", match: "\n", lineBreaks: true },
+				{ type: "comment", match: /(?:[^*\n]|\*(?!\/))+/ },
+			],
+			template: [
+				{ type: "templateEnd", match: "`", pop: 1 },
+				{ type: "interpolation", match: "${", push: "main" },
+				{ type: "NL", match: "\n", lineBreaks: true },
+				{ type: "string", match: /(?:[^`$\n]|\$(?!\{))+/ },
+			],
+		},
+		"main",
+	);
+	const document = [
+		"let a = 1; /* a comment",
+		"spanning * lines */ let b = `a template",
+		"with ${a + `nested ${b}`} interpolations",
+		"`; /**/",
+		"",
+	].join("\n");
+
+	// The lines of a document with their line breaks, and the last line
+	function lines(data: string) {
+		return data.split(/(?<=\n)/).concat(data.endsWith("\n") ? [""] : []);
+	}
+
+	function lexLines(lexer: Lexer, data: string) {
+		const tokens: Token[] = [];
+		let state: LineState | undefined;
+		for (const line of lines(data)) {
+			const result = lexer.tokenizeLine(line, state);
+			tokens.push(...result.tokens);
+			state = result.endState;
+		}
+		return tokens;
+	}
+
+	test("lexes documents line by line", () => {
+		expect(lexLines(lexer, document)).toEqual(lexAll(lexer.reset(document)));
+	});
+
+	test("continues tokens on the next lines", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "space", match: /\s+/, lineBreaks: true },
+					{ type: "word", match: /\w+/ },
+					{ type: "commentStart", match: "/*", push: "comment" },
+				],
+				comment: [
+					{ type: "commentEnd", match: "*/", pop: 1 },
+					{ type: "text", option: "fallback" },
+				],
+			},
+			"main",
+		);
+		const document = "a /* one\ntwo\nthree */ b \n c\n";
+		const tokens = lexLines(lexer, document);
+		// Fallback text is released with its line, since no match can start in it
+		expect(tokens.map((t) => [t.type, t.value, t.line, t.col])).toEqual([
+			["word", "a", 1, 1],
+			["space", " ", 1, 2],
+			["commentStart", "/*", 1, 3],
+			["text", " one\n", 1, 5],
+			["text", "two\n", 2, 1],
+			["text", "three ", 3, 1],
+			["commentEnd", "*/", 3, 7],
+			["space", " ", 3, 9],
+			["word", "b", 3, 10],
+			["space", " \n ", 3, 11],
+			["word", "c", 4, 2],
+			["space", "\n", 4, 3],
+		]);
+	});
+
+	test("holds back the tokens reaching the end of a line", () => {
+		const lexer = compile([
+			{ type: "space", match: /\s+/, lineBreaks: true },
+			{ type: "word", match: /\w+/ },
+		]);
+		const first = lexer.tokenizeLine("a \n");
+		expect(first.tokens.map((t) => t.value)).toEqual(["a"]);
+		expect(first.endState).toMatchObject({ offset: 1, line: 1, col: 2, pendingText: " \n" });
+
+		const second = lexer.tokenizeLine(" b", first.endState);
+		expect(second.tokens.map(({ value, line, col }) => [value, line, col])).toEqual([
+			[" \n ", 1, 2],
+			["b", 2, 2],
+		]);
+		expect(second.endState.pendingText).toBe("");
+	});
+
+	test("reports invalid syntax on its line", () => {
+		const rules = [
+			{ type: "space", match: /\s+/, lineBreaks: true },
+			{ type: "word", match: /\w+/ },
+		];
+		const document = "foo bar\nbaz ! qux\nend\n";
+		const withErrors = compile([...rules, { type: "error", option: "error" as const }]);
+		const lineTokens: (string | number)[][][] = [];
+		let state: LineState | undefined;
+		for (const line of lines(document)) {
+			const result = withErrors.tokenizeLine(line, state);
+			lineTokens.push(result.tokens.map((t) => [t.type, t.value, t.line]));
+			state = result.endState;
+		}
+		expect(lineTokens).toEqual([
+			[
+				["word", "foo", 1],
+				["space", " ", 1],
+				["word", "bar", 1],
+			],
+			[
+				["space", "\n", 1],
+				["word", "baz", 2],
+				["space", " ", 2],
+				["error", "! qux\n", 2],
+			],
+			[["word", "end", 3]],
+			[["space", "\n", 3]],
+		]);
+
+		const lexer = compile(rules);
+		const first = lexer.tokenizeLine("foo bar\n");
+		expect(() => lexer.tokenizeLine("baz ! qux\n", first.endState)).toThrow(
+			"invalid syntax at line 2 col 5",
+		);
+		expect(() => lexer.tokenizeLine("baz !", first.endState)).toThrow(
+			"invalid syntax at line 2 col 5",
+		);
+	});
+
+	test("returns the end state of each line", () => {
+		const ends: [string, string[]][] = [];
+		let state: LineState | undefined;
+		for (const line of lines(document)) {
+			state = lexer.tokenizeLine(line, state).endState;
+			ends.push([state.stateName, state.stack]);
+		}
+		expect(ends).toEqual([
+			["comment", ["main"]],
+			["template", ["main"]],
+			["template", ["main"]],
+			["main", []],
+			["main", []],
+		]);
+	});
+
+	test("resumes from a cached state", () => {
+		const first = lexer.tokenizeLine("let a = /* b\n");
+		const second = lexer.tokenizeLine("c */ d\n", first.endState);
+		expect(second.tokens.map(({ type, line, col }) => [type, line, col])).toEqual([
+			["NL", 1, 13],
+			["comment", 2, 1],
+			["commentEnd", 2, 3],
+			["WS", 2, 5],
+			["word", 2, 6],
+		]);
+		expect(second.endState.pendingText).toBe("\n");
+		expect(lexer.tokenizeLine("c */ d\n", first.endState)).toEqual(second);
+	});
+});
@@ -0,0 +1,171 @@
+import { describe, expect, test } from "vitest";
+import { compile, states, type Lexer } from "../index";
+import { lexAll } from "./utils";
+
+describe("longest match", () => {
+	const rules = [
+		{ type: "lt", match: "<" },
+		{ type: "le", match: "<=" },
+		{ type: "eq", match: "=" },
+		{ type: "int", match: "int" },
+		{ type: "name", match: /[a-z]+/ },
+		{ type: "space", match: / +/ },
+	];
+	const tokens = (lexer: Lexer, data: string) =>
+		lexAll(lexer.reset(data))
+			.filter((t) => t.type !== "space")
+			.map((t) => [t.type, t.value]);
+
+	test("matches the first rule by default", () => {
+		expect(tokens(compile(rules), "a <= b int integer")).toEqual([
+			["name", "a"],
+			["lt", "<"],
+			["eq", "="],
+			["name", "b"],
+			["int", "int"],
+			["int", "int"],
+			["name", "eger"],
+		]);
+	});
+
+	test("matches the longest rule", () => {
+		expect(tokens(compile(rules, { strategy: "longest" }), "a <= b int integer")).toEqual([
+			["name", "a"],
+			["le", "<="],
+			["name", "b"],
+			["int", "int"],
+			["name", "integer"],
+		]);
+	});
+
+	test("breaks ties by order", () => {
+		const lexer = compile(
+			[
+				{ type: "name", match: /[a-z]+/ },
+				{ type: "keyword", match: ["if", "else"] },
+			],
+			{ strategy: "longest" },
+		);
+		expect(tokens(lexer, "if")).toEqual([["name", "if"]]);
+
+		const keywordsFirst = compile(
+			[
+				{ type: "keyword", match: ["if", "else"] },
+				{ type: "name", match: /[a-z]+/ },
+				{ type: "space", match: " " },
+			],
+			{ strategy: "longest" },
+		);
+		expect(tokens(keywordsFirst, "if iff")).toEqual([
+			["keyword", "if"],
+			["name", "iff"],
+		]);
+	});
+
+	test("compares the alternatives of a rule", () => {
+		const rules = [
+			{ type: "number", match: [/[0-9]+/, /[0-9]+\.[0-9]+/] },
+			{ type: "dot", match: "." },
+		];
+		expect(tokens(compile(rules), "3.14")).toEqual([
+			["number", "3"],
+			["dot", "."],
+			["number", "14"],
+		]);
+		expect(tokens(compile(rules, { strategy: "longest" }), "3.14")).toEqual([["number", "3.14"]]);
+	});
+
+	test("matches case-insensitive rules", () => {
+		const lexer = compile(
+			[
+				{ type: "keyword", match: "select", ignoreCase: true },
+				{ type: "name", match: /[a-z_]+/i },
+			],
+			{ strategy: "longest" },
+		);
+		expect(tokens(lexer, "SELECT")).toEqual([["keyword", "SELECT"]]);
+		expect(tokens(lexer, "Select_all")).toEqual([["name", "Select_all"]]);
+	});
+
+	test("tries the RegExps which can start with the next character", () => {
+		const lexer = compile(
+			[
+				{ type: "kelvin", match: /\u212a/iu },
+				{ type: "word", match: /(?=\w)[a-z]+é*/u },
+				{ type: "accent", match: /é+/u },
+				{ type: "space", match: / /u },
+			],
+			{ strategy: "longest" },
+		);
+		expect(lexAll(lexer.reset("K kké éé")).map((t) => [t.type, t.value])).toEqual([
+			["kelvin", "K"],
+			["space", " "],
+			["word", "kké"],
+			["space", " "],
+			["accent", "éé"],
+		]);
+	});
+
+	test("matches after fallback text", () => {
+		const lexer = compile(
+			[
+				{ type: "lt", match: "<" },
+				{ type: "le", match: "<=" },
+				{ type: "text", option: "fallback" },
+			],
+			{ strategy: "longest" },
+		);
+		expect(tokens(lexer, "a<=b<c")).toEqual([
+			["text", "a"],
+			["le", "<="],
+			["text", "b"],
+			["lt", "<"],
+			["text", "c"],
+		]);
+	});
+
+	test("can be set by state", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "lt", match: "<" },
+					{ type: "le", match: "<=" },
+					{ type: "eq", match: "=" },
+					{ type: "open", match: "(", push: "inner" },
+				],
+				inner: [
+					{ type: "lt", match: "<" },
+					{ type: "le", match: "<=" },
+					{ type: "close", match: ")", pop: 1 },
+				],
+			},
+			"main",
+			{ strategy: { inner: "longest" } },
+		);
+		expect(tokens(lexer, "<=(<=)")).toEqual([
+			["lt", "<"],
+			["eq", "="],
+			["open", "("],
+			["le", "<="],
+			["close", ")"],
+		]);
+	});
+
+	test("holds back a literal which the next chunk may complete", () => {
+		const lexer = compile(rules, { strategy: "longest" });
+		lexer.reset();
+		const values = [
+			...lexAll(lexer.feed("a <")),
+			...lexAll(lexer.feed("= in")),
+			...lexAll(lexer.feed("teger")),
+			...lexAll(lexer.end()),
+		].map((t) => t.value);
+		expect(values).toEqual(["a", " ", "<=", " ", "integer"]);
+	});
+
+	test("rejects unknown strategies", () => {
+		expect(() => compile(rules, { strategy: "shortest" as "first" })).toThrow(
+			expect.objectContaining({ code: "INVALID_OPTION" }),
+		);
+	});
+});
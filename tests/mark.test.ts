@@ -0,0 +1,119 @@
+import { describe, expect, test } from "vitest";
+import { compile, states, LexError } from "../index";
+import { lexAll } from "./utils";
+
+describe("mark", () => {
+	const lexer = compile([
+		{ type: "WS", match: / +/, option: "skip" },
+		{ type: "word", match: /[a-z]+/ },
+		{ type: "number", match: /[0-9]+/ },
+	]);
+
+	test("rewinds to a mark", () => {
+		lexer.reset("foo 12 bar");
+		lexer.next();
+		const mark = lexer.mark();
+		expect(lexer.next()).toMatchObject({ value: "12" });
+		expect(lexer.next()).toMatchObject({ value: "bar" });
+		lexer.rewind(mark);
+		expect(lexAll(lexer).map(({ value, col }) => [value, col])).toEqual([
+			["12", 5],
+			["bar", 8],
+		]);
+	});
+
+	test("commits a mark", () => {
+		lexer.reset("foo 12 bar");
+		const mark = lexer.mark();
+		lexer.next();
+		lexer.commit(mark);
+		expect(lexer.next()).toMatchObject({ value: "12" });
+		expect(() => lexer.rewind(mark)).toThrowError(LexError);
+	});
+
+	test("nests marks", () => {
+		lexer.reset("a b c d");
+		const outer = lexer.mark();
+		lexer.next();
+		const inner = lexer.mark();
+		lexer.next();
+		lexer.rewind(inner);
+		expect(lexer.next()).toMatchObject({ value: "b" });
+		const other = lexer.mark();
+		lexer.next();
+		lexer.rewind(outer);
+		expect(lexer.next()).toMatchObject({ value: "a" });
+		expect(() => lexer.commit(other)).toThrowError(
+			expect.objectContaining({ code: "UNKNOWN_MARK" }),
+		);
+	});
+
+	test("restores peeked tokens", () => {
+		lexer.reset("foo 12 bar");
+		const peeked = lexer.peek(2);
+		const mark = lexer.mark();
+		lexer.next();
+		lexer.next();
+		lexer.next();
+		lexer.rewind(mark);
+		expect(lexer.peek(2)).toBe(peeked);
+		expect(lexAll(lexer).map((t) => t.value)).toEqual(["foo", "12", "bar"]);
+	});
+
+	test("restores states and the stack", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "word", match: /\w+/ },
+					{ type: "open", match: "(", push: "inner" },
+				],
+				inner: [
+					{ type: "text", match: /[^()]+/, lineBreaks: true },
+					{ type: "open", match: "(", push: "inner" },
+					{ type: "close", match: ")", pop: 1 },
+				],
+			},
+			"main",
+		);
+		lexer.reset("a(b(c))d");
+		lexer.next();
+		lexer.next();
+		const mark = lexer.mark();
+		lexAll(lexer);
+		expect(lexer.stateName).toBe("main");
+		lexer.rewind(mark);
+		expect(lexer.stateName).toBe("inner");
+		expect(lexer.stack).toEqual(["main"]);
+		expect(lexAll(lexer).map((t) => t.value)).toEqual(["b", "(", "c", ")", ")", "d"]);
+	});
+
+	test("restores the queued fallback token", () => {
+		const lexer = compile([
+			{ type: "op", match: /[._]/ },
+			{ type: "text", option: "fallback" },
+		]);
+		lexer.reset("foo.bar");
+		expect(lexer.next()).toMatchObject({ type: "text", value: "foo" });
+		const mark = lexer.mark();
+		expect(lexer.next()).toMatchObject({ type: "op", value: "." });
+		lexer.next();
+		lexer.rewind(mark);
+		expect(lexAll(lexer).map(({ type, value, offset }) => [type, value, offset])).toEqual([
+			["op", ".", 3],
+			["text", "bar", 4],
+		]);
+	});
+
+	test("keeps the data after marks when streaming", () => {
+		lexer.reset();
+		lexAll(lexer.feed("foo 1"));
+		const mark = lexer.mark();
+		expect(lexAll(lexer.feed("2 bar "))).toMatchObject([{ value: "12" }, { value: "bar" }]);
+		lexer.rewind(mark);
+		expect(lexAll(lexer.feed("baz").end()).map(({ value, offset }) => [value, offset])).toEqual([
+			["12", 4],
+			["bar", 7],
+			["baz", 11],
+		]);
+	});
+});
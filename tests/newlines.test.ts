@@ -0,0 +1,105 @@
+import { describe, expect, test } from "vitest";
+import { compile, LineIndex, type Lexer } from "../index";
+import { lexAll } from "./utils";
+
+describe("newlines", () => {
+	const rules = [
+		{ type: "word", match: /[a-z]+/ },
+		{ type: "NL", match: /\r\n|[\r\n\u2028\u2029\u0085]/, lineBreaks: true },
+	];
+	const positions = (lexer: Lexer, data: string) =>
+		lexAll(lexer.reset(data)).map((t) => [t.value, t.line, t.col, t.lineBreaks]);
+
+	test("counts LF only by default", () => {
+		expect(positions(compile(rules), "a\r\nb\rc")).toEqual([
+			["a", 1, 1, 0],
+			["\r\n", 1, 2, 1],
+			["b", 2, 1, 0],
+			["\r", 2, 2, 0],
+			["c", 2, 3, 0],
+		]);
+	});
+
+	test("counts CRLF and CR", () => {
+		expect(positions(compile(rules, { newlines: "any" }), "a\r\nb\rc\nd\u2028e")).toEqual([
+			["a", 1, 1, 0],
+			["\r\n", 1, 2, 1],
+			["b", 2, 1, 0],
+			["\r", 2, 2, 1],
+			["c", 3, 1, 0],
+			["\n", 3, 2, 1],
+			["d", 4, 1, 0],
+			["\u2028", 4, 2, 0],
+			["e", 4, 3, 0],
+		]);
+	});
+
+	test("counts Unicode line separators", () => {
+		expect(positions(compile(rules, { newlines: "unicode" }), "a\u2028b\u2029c\u0085d")).toEqual([
+			["a", 1, 1, 0],
+			["\u2028", 1, 2, 1],
+			["b", 2, 1, 0],
+			["\u2029", 2, 2, 1],
+			["c", 3, 1, 0],
+			["\u0085", 3, 2, 1],
+			["d", 4, 1, 0],
+		]);
+	});
+
+	test("counts a CRLF split between tokens once", () => {
+		const lexer = compile(
+			[
+				{ type: "text", match: /[a-z\r]+/, lineBreaks: true },
+				{ type: "NL", match: "\n", lineBreaks: true },
+			],
+			{ newlines: "any" },
+		);
+		expect(positions(lexer, "ab\r\ncd")).toEqual([
+			["ab\r", 1, 1, 1],
+			["\n", 2, 1, 0],
+			["cd", 2, 1, 0],
+		]);
+
+		lexer.reset();
+		lexAll(lexer.feed("ab\r"));
+		const tokens = [...lexAll(lexer.feed("\ncd")), ...lexAll(lexer.end())];
+		expect(tokens.map((t) => [t.value, t.line, t.col])).toEqual([
+			["ab\r", 1, 1],
+			["\n", 2, 1],
+			["cd", 2, 1],
+		]);
+	});
+
+	test("splits error frames on the line breaks", () => {
+		const lexer = compile(rules, { newlines: "any" });
+		const tokens = lexAll(lexer.reset("ab\r\ncd\ref"));
+		expect(lexer.formatError(tokens[2]!, "oops")).toBe(
+			"oops at line 2 col 1:\n\n1  ab\n2  cd\n   ^\n3  ef",
+		);
+	});
+
+	test("indexes lines on the line breaks", () => {
+		const index = new LineIndex("a\r\nb\rc", "any");
+		expect(index.lineCount).toBe(3);
+		expect([1, 2, 3].map((line) => index.lineText(line))).toEqual(["a", "b", "c"]);
+		expect(index.positionAt(2)).toEqual({ line: 1, col: 3 });
+
+		// Edits can join a CR and a LF, or split them
+		const edits = [
+			{ offset: 5, length: 0, text: "\n" },
+			{ offset: 2, length: 0, text: "x" },
+			{ offset: 2, length: 1, text: "" },
+			{ offset: 1, length: 1, text: "" },
+			{ offset: 0, length: 0, text: "\r" },
+			{ offset: 1, length: 0, text: "\n\r" },
+		];
+		for (const edit of edits) {
+			index.edit(edit);
+			const fresh = new LineIndex(index.text, "any");
+			expect(index.lineCount).toBe(fresh.lineCount);
+			for (let line = 1; line <= fresh.lineCount; line++) {
+				expect(index.lineStart(line)).toBe(fresh.lineStart(line));
+			}
+		}
+	});
+});
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "vitest";
+import { compile, states, NULL_TOKEN } from "../index";
+import { lexAll } from "./utils";
+
+describe("peek", () => {
+	const lexer = compile([
+		{ type: "WS", match: / +/, option: "skip" },
+		{ type: "word", match: /[a-z]+/ },
+		{ type: "number", match: /[0-9]+/ },
+	]);
+
+	test("looks ahead without consuming", () => {
+		lexer.reset("foo 12 bar");
+		expect(lexer.peek()).toMatchObject({ type: "word", value: "foo" });
+		expect(lexer.peek(3)).toMatchObject({ type: "word", value: "bar" });
+		expect(lexer.peek(2)).toMatchObject({ type: "number", value: "12" });
+		expect(lexer.peek(4)).toBe(NULL_TOKEN);
+		expect(lexAll(lexer).map((t) => t.value)).toEqual(["foo", "12", "bar"]);
+		expect(lexer.peek()).toBe(NULL_TOKEN);
+	});
+
+	test("returns the same tokens as next()", () => {
+		lexer.reset("foo 12 bar");
+		const peeked = lexer.peek();
+		expect(lexer.next()).toBe(peeked);
+		expect(lexer.peek(2)).toBe(lexer.peek(2));
+	});
+
+	test("rejects invalid lookaheads", () => {
+		lexer.reset("foo");
+		expect(() => lexer.peek(0)).toThrowError(RangeError);
+		expect(() => lexer.peek(1.5)).toThrowError(RangeError);
+	});
+
+	test("saves the position before peeked tokens", () => {
+		lexer.reset("foo 12");
+		lexer.next();
+		const snapshot = lexer.save();
+		lexer.peek(2);
+		expect(lexer.save()).toEqual(snapshot);
+		expect(lexer.formatError(NULL_TOKEN)).toBe(" at line 1 col 4:\n\n1  foo 12\n      ^");
+	});
+
+	const statefulLexer = states(
+		{
+			main: [
+				{ type: "word", match: /\w+/ },
+				{ type: "open", match: "(", push: "inner" },
+			],
+			inner: [
+				{ type: "text", match: /[^)]+/, lineBreaks: true },
+				{ type: "close", match: ")", pop: 1 },
+			],
+		},
+		"main",
+	);
+
+	test("lexes peeked tokens in pushed states", () => {
+		statefulLexer.reset("a(b c)d");
+		expect(statefulLexer.peek(3)).toMatchObject({ type: "text", value: "b c" });
+		expect(statefulLexer.peek(5)).toMatchObject({ type: "word", value: "d" });
+		expect(lexAll(statefulLexer).map((t) => t.type)).toEqual([
+			"word",
+			"open",
+			"text",
+			"close",
+			"word",
+		]);
+	});
+
+	test("discards peeked tokens when the state changes", () => {
+		statefulLexer.reset("a(b c)d");
+		expect(statefulLexer.next()).toMatchObject({ type: "word", value: "a" });
+		expect(statefulLexer.peek(2)).toMatchObject({ type: "text", value: "b c" });
+		statefulLexer.pushState("inner");
+		expect(statefulLexer.stack).toEqual(["main"]);
+		expect(lexAll(statefulLexer).map((t) => t.value)).toEqual(["(b c", ")", "d"]);
+	});
+});
@@ -0,0 +1,145 @@
+import { describe, expect, test } from "vitest";
+import { compile, states, type Lexer } from "../index";
+import { lexAll } from "./utils";
+
+function edit(lexer: Lexer, data: string, offset: number, length: number, text: string) {
+	const tokens = lexAll(lexer.reset(data));
+	const change = lexer.relex(tokens, { offset, length, text });
+	const edited = data.slice(0, offset) + text + data.slice(offset + length);
+	// The lexer goes on with the reused tokens
+	expect(lexAll(lexer)).toEqual(change.tokens.slice(change.start + change.insertCount));
+	expect(change.tokens).toEqual(lexAll(lexer.reset(edited)));
+	return change;
+}
+
+describe("relex", () => {
+	const lexer = compile([
+		{ type: "WS", match: / +/, option: "skip" },
+		{ type: "word", match: /[a-z]+/ },
+		{ type: "op", match: ["==", "="] },
+		{ type: "NL", match: "\n", lineBreaks: true },
+	]);
+	const data = "foo = bar\nbaz == qux\nquux\n";
+
+	test("re-lexes the edited tokens", () => {
+		const change = edit(lexer, data, 10, 3, "hello world");
+		expect(change).toMatchObject({ start: 4, deleteCount: 1, insertCount: 2 });
+		expect(change.tokens.slice(4, 6).map((t) => t.value)).toEqual(["hello", "world"]);
+	});
+
+	test("shifts the following tokens", () => {
+		const change = edit(lexer, data, 4, 0, "=\n");
+		expect(change).toMatchObject({ start: 1, deleteCount: 0, insertCount: 2 });
+		expect(change.tokens[3]).toMatchObject({ value: "=", offset: 6, line: 2, col: 1 });
+		expect(change.tokens[4]).toMatchObject({ value: "bar", offset: 8, line: 2, col: 3 });
+		expect(change.tokens.at(-2)).toMatchObject({ value: "quux", offset: 23, line: 4, col: 1 });
+	});
+
+	test("re-lexes tokens continued by the edit", () => {
+		const change = edit(lexer, data, 3, 0, "d");
+		expect(change).toMatchObject({ start: 0, deleteCount: 1, insertCount: 1 });
+		expect(change.tokens[0]).toMatchObject({ value: "food" });
+		expect(edit(lexer, data, 15, 1, "")).toMatchObject({
+			start: 5,
+			deleteCount: 1,
+			insertCount: 1,
+		});
+	});
+
+	test("edits the beginning and the end of the data", () => {
+		edit(lexer, data, 0, 0, "  a ");
+		edit(lexer, data, 0, 4, "");
+		edit(lexer, data, data.length, 0, "end");
+		edit(lexer, data, data.length - 1, 1, "");
+		edit(lexer, "", 0, 0, "a b");
+	});
+
+	test("formats errors in the edited data", () => {
+		const tokens = lexAll(lexer.reset(data));
+		lexer.formatError(tokens[0]!);
+		const change = lexer.relex(tokens, { offset: 3, length: 0, text: "\nnew" });
+		const token = change.tokens[2]!;
+		expect(lexer.formatError(token, "oops", { contextLines: 0 })).toBe(
+			"oops at line 2 col 1:\n\n2  new = bar\n   ^",
+		);
+	});
+
+	test("leaves the lexer before the reused tokens", () => {
+		const lexer = compile([
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "space", match: " " },
+		]);
+		const tokens = lexAll(lexer.reset("aa bb cc dd"));
+		lexer.relex(tokens, { offset: 0, length: 2, text: "xx" });
+		expect(lexer.next()).toMatchObject({ value: " ", offset: 2 });
+		expect(lexer.next()).toMatchObject({ value: "bb", offset: 3 });
+	});
+
+	test("rejects edits out of bounds", () => {
+		const tokens = lexAll(lexer.reset(data));
+		expect(() => lexer.relex(tokens, { offset: 20, length: 10, text: "" })).toThrowError(
+			RangeError,
+		);
+	});
+
+	test("re-lexes fallback tokens", () => {
+		const lexer = compile([
+			{ type: "number", match: /[0-9]+/ },
+			{ type: "op", match: /[-+]/ },
+			{ type: "text", option: "fallback" },
+		]);
+		const source = "ab12+cd-34ef";
+		for (let offset = 0; offset <= source.length; offset++) {
+			for (let length = 0; offset + length <= source.length && length < 3; length++) {
+				for (const text of ["", "5", "x", "+"]) {
+					edit(lexer, source, offset, length, text);
+				}
+			}
+		}
+	});
+
+	const statefulLexer = states(
+		{
+			main: [
+				{ type: "word", match: /\w+/ },
+				{ type: "space", match: " " },
+				{ type: "quote", match: '"', push: "string" },
+				{ type: "backslash", match: "\\" },
+			],
+			string: [
+				{ type: "text", match: /[^"\\]+/, lineBreaks: true },
+				{ type: "escape", match: /\\./ },
+				{ type: "quote", match: '"', pop: 1 },
+			],
+		},
+		"main",
+	);
+	const source = 'a "b c" d "e\\"" f';
+
+	test("resynchronises in the same state", () => {
+		const change = edit(statefulLexer, source, 4, 0, "x");
+		expect(change).toMatchObject({ start: 3, deleteCount: 1, insertCount: 1 });
+		expect(change.tokens[3]).toMatchObject({ type: "text", value: "bx c" });
+	});
+
+	test("re-lexes until the state lines up", () => {
+		// The new quote swaps strings and words, until the escaped quote ends a string again
+		const change = edit(statefulLexer, source, 1, 0, '"');
+		expect(change.start).toBe(1);
+		expect(change.tokens.slice(change.start + change.insertCount).map((t) => t.text)).toEqual([
+			'"',
+			" ",
+			"f",
+		]);
+	});
+
+	test("matches full re-lexing for any edit", () => {
+		for (let offset = 0; offset <= source.length; offset++) {
+			for (let length = 0; offset + length <= source.length && length < 4; length++) {
+				for (const text of ["", '"', " ", "z", '\\"']) {
+					edit(statefulLexer, source, offset, length, text);
+				}
+			}
+		}
+	});
+});
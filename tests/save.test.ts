@@ -1,61 +1,136 @@
-// describe("save/restore", () => {
-// 	const testLexer = compile({
-// 		word: /[a-z]+/,
-// 		NL: { match: "\n", lineBreaks: true },
-// 	});
-
-// 	test("can save info", () => {
-// 		testLexer.reset("one\ntwo");
-// 		lexAll(testLexer);
-// 		expect(testLexer.save()).toMatchObject({ line: 2, col: 4 });
-// 	});
-
-// 	test("can restore info", () => {
-// 		testLexer.reset("\nthree", { line: 2, col: 4 });
-// 		expect(testLexer).toMatchObject({ line: 2, col: 4, buffer: "\nthree" });
-// 	});
-
-// 	const statefulLexer = states({
-// 		start: {
-// 			word: /\w+/,
-// 			eq: { match: "=", push: "ab" },
-// 		},
-// 		ab: {
-// 			a: "a",
-// 			b: "b",
-// 			semi: { match: ";", push: "start" },
-// 		},
-// 	});
-
-// 	test("can save state", () => {
-// 		statefulLexer.reset("one=ab");
-// 		statefulLexer.next();
-// 		expect(statefulLexer.state).toBe("start");
-// 		expect(statefulLexer.save()).toMatchObject({ state: "start" });
-// 		statefulLexer.next();
-// 		expect(statefulLexer.state).toBe("ab");
-// 		expect(statefulLexer.save()).toMatchObject({ state: "ab" });
-// 	});
-
-// 	test("can restore state", () => {
-// 		statefulLexer.reset("ab", { line: 0, col: 0, state: "ab" });
-// 		expect(statefulLexer.state).toBe("ab");
-// 		expect(lexAll(statefulLexer).length).toBe(2);
-// 	});
-
-// 	test("can save stack", () => {
-// 		statefulLexer.reset("one=a;");
-// 		statefulLexer.next(); // one
-// 		statefulLexer.next(); // =
-// 		expect(statefulLexer.save()).toMatchObject({ stack: ["start"] });
-// 		statefulLexer.next(); // a
-// 		statefulLexer.next(); // ;
-// 		expect(statefulLexer.save()).toMatchObject({ stack: ["start", "ab"] });
-// 	});
-
-// 	test("can restore stack", () => {
-// 		statefulLexer.reset("one=a;", { stack: ["one", "two"], state: "ab" });
-// 		expect(statefulLexer.state).toBe("ab");
-// 		expect(statefulLexer.stack).toEqual(["one", "two"]);
-// 	});
-// });
+import { describe, expect, test } from "vitest";
+import { type Token, compile, states } from "../index";
+import { lexAll } from "./utils";
+
+describe("save/restore", () => {
+	const testLexer = compile([
+		{ type: "word", match: /[a-z]+/ },
+		{ type: "NL", match: "\n", lineBreaks: true },
+	]);
+
+	test("can save info", () => {
+		testLexer.reset("one\ntwo");
+		lexAll(testLexer);
+		expect(testLexer.save()).toMatchObject({ line: 2, col: 4 });
+	});
+
+	test("can restore info", () => {
+		testLexer.reset("\nthree", { line: 2, col: 4 });
+		expect(testLexer).toMatchObject({ line: 2, col: 4, data: "\nthree" });
+	});
+
+	const statefulLexer = states(
+		{
+			start: [
+				{ type: "word", match: /\w+/ },
+				{ type: "eq", match: "=", push: "ab" },
+			],
+			ab: [
+				{ type: "a", match: "a" },
+				{ type: "b", match: "b" },
+				{ type: "semi", match: ";", push: "start" },
+			],
+		},
+		"start",
+	);
+
+	test("can save state", () => {
+		statefulLexer.reset("one=ab");
+		statefulLexer.next();
+		expect(statefulLexer.stateName).toBe("start");
+		expect(statefulLexer.save()).toMatchObject({ stateName: "start" });
+		statefulLexer.next();
+		expect(statefulLexer.stateName).toBe("ab");
+		expect(statefulLexer.save()).toMatchObject({ stateName: "ab" });
+	});
+
+	test("can restore state", () => {
+		statefulLexer.reset("ab", { line: 0, col: 0, stateName: "ab" });
+		expect(statefulLexer.stateName).toBe("ab");
+		expect(lexAll(statefulLexer).length).toBe(2);
+	});
+
+	test("can save stack", () => {
+		statefulLexer.reset("one=a;");
+		statefulLexer.next(); // one
+		statefulLexer.next(); // =
+		expect(statefulLexer.save()).toMatchObject({ stack: ["start"] });
+		statefulLexer.next(); // a
+		statefulLexer.next(); // ;
+		expect(statefulLexer.save()).toMatchObject({ stack: ["start", "ab"] });
+	});
+
+	test("can restore stack", () => {
+		statefulLexer.reset("one=a;", { stack: ["one", "two"], stateName: "ab" });
+		expect(statefulLexer.stateName).toBe("ab");
+		expect(statefulLexer.stack).toEqual(["one", "two"]);
+	});
+
+	test("resets the stack", () => {
+		statefulLexer.reset("one=a;");
+		lexAll(statefulLexer);
+		statefulLexer.reset("two");
+		expect(statefulLexer.stack).toEqual([]);
+	});
+
+	test("snapshots round-trip through JSON", () => {
+		const lexer = compile([
+			{ type: "op", match: /[._]/ },
+			{ type: "text", option: "fallback" },
+		]);
+		const data = "foo.bar";
+		lexer.reset(data);
+		expect(lexer.next()).toMatchObject({ type: "text", value: "foo" });
+		const snapshot = JSON.parse(JSON.stringify(lexer.save()));
+		expect(snapshot).toEqual({
+			offset: 3,
+			line: 1,
+			col: 4,
+			stateName: "start",
+			stack: [],
+			queuedText: ".",
+			queuedRule: 0,
+		});
+
+		lexer.reset(data.slice(lexer.index), snapshot);
+		expect(lexAll(lexer).map(({ type, value, offset, col }) => [type, value, offset, col])).toEqual(
+			[
+				["op", ".", 3, 4],
+				["text", "bar", 4, 5],
+			],
+		);
+	});
+
+	test("resumes chunk by chunk", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "word", match: /\w+/ },
+					{ type: "NL", match: "\n", lineBreaks: true },
+					{ type: "open", match: "(", push: "inner" },
+				],
+				inner: [
+					{ type: "text", match: /[^)]+/, lineBreaks: true },
+					{ type: "close", match: ")", pop: 1 },
+				],
+			},
+			"main",
+		);
+		const chunks = ["one\n(", "two\nthree", ")four"];
+		const tokens: Token[] = [];
+		let snapshot;
+		for (const chunk of chunks) {
+			lexer.reset(chunk, snapshot);
+			tokens.push(...lexAll(lexer));
+			snapshot = JSON.parse(JSON.stringify(lexer.save()));
+		}
+		expect(tokens.map(({ type, value, line, col }) => [type, value, line, col])).toEqual([
+			["word", "one", 1, 1],
+			["NL", "\n", 1, 4],
+			["open", "(", 2, 1],
+			["text", "two\nthree", 2, 2],
+			["close", ")", 3, 6],
+			["word", "four", 3, 7],
+		]);
+	});
+});
@@ -9,7 +9,7 @@ describe("skip channel", () => {
 			type: "word",
 			match: /\w+/,
 		},
-		{ type: "space", match: /\s+/, option: "skip" },
+		{ type: "space", match: /\s+/, option: "skip", lineBreaks: true },
 	]);
 	const statefulLexer = states(
 		{
@@ -106,14 +106,14 @@ describe("stateful lexer", () => {
 					{ type: "lbrace", match: "{", push: "main" },
 					{ type: "rbrace", match: "}", pop: 1 },
 					{ type: "colon", match: ":" },
-					{ type: "space", match: /\s+/ },
+					{ type: "space", match: /\s+/, lineBreaks: true },
 				],
 
 				lit: [
 					{ type: "interp", match: "${", push: "main" },
 					{ type: "escape", match: /\\./ },
 					{ type: "strend", match: "`", pop: 1 },
-					{ type: "const", match: /(?:[^$`]|\$(?!\{))+/ },
+					{ type: "const", match: /(?:[^$`]|\$(?!\{))+/, lineBreaks: true },
 				],
 			},
 			"main",
@@ -0,0 +1,212 @@
+import { Readable } from "stream";
+import { describe, expect, test } from "vitest";
+import { compile, states, LexError, type Lexer, type Token } from "../index";
+import { lexAll } from "./utils";
+
+function lexChunks(lexer: Lexer, chunks: string[]) {
+	const tokens: Token[] = [];
+	lexer.reset();
+	for (const chunk of chunks) {
+		tokens.push(...lexAll(lexer.feed(chunk)));
+	}
+	tokens.push(...lexAll(lexer.end()));
+	return tokens;
+}
+
+describe("streaming", () => {
+	const lexer = compile([
+		{ type: "WS", match: / +/ },
+		{ type: "word", match: /[a-z]+/ },
+		{ type: "string", match: /"[^"]*"/, lineBreaks: true },
+		{ type: "op", match: ["==", "="] },
+		{ type: "NL", match: "\n", lineBreaks: true },
+	]);
+	const data = 'foo = "bar baz"\nqux == quux\n';
+
+	test("lexes chunks like the whole input", () => {
+		const expected = lexAll(lexer.reset(data));
+		for (let size = 1; size <= data.length; size++) {
+			const chunks: string[] = [];
+			for (let i = 0; i < data.length; i += size) {
+				chunks.push(data.slice(i, i + size));
+			}
+			expect(lexChunks(lexer, chunks)).toEqual(expected);
+		}
+	});
+
+	test("holds back tokens reaching the end of a chunk", () => {
+		lexer.reset();
+		expect(lexAll(lexer.feed("foo ba"))).toMatchObject([
+			{ type: "word", value: "foo" },
+			{ type: "WS", value: " " },
+		]);
+		expect(lexAll(lexer.feed('r "a'))).toMatchObject([
+			{ type: "word", value: "bar" },
+			{ type: "WS", value: " " },
+		]);
+		expect(lexAll(lexer.feed(' b"'))).toEqual([]);
+		expect(lexAll(lexer.end())).toMatchObject([{ type: "string", value: '"a b"', offset: 8 }]);
+	});
+
+	test("tracks offsets and positions across chunks", () => {
+		const tokens = lexChunks(lexer, ["foo\nb", "ar\n", "baz"]);
+		expect(tokens.map(({ value, offset, line, col }) => [value, offset, line, col])).toEqual([
+			["foo", 0, 1, 1],
+			["\n", 3, 1, 4],
+			["bar", 4, 2, 1],
+			["\n", 7, 2, 4],
+			["baz", 8, 3, 1],
+		]);
+	});
+
+	test("keeps the state across chunks", () => {
+		const lexer = states(
+			{
+				main: [
+					{ type: "word", match: /\w+/ },
+					{ type: "open", match: "(", push: "inner" },
+				],
+				inner: [
+					{ type: "text", match: /[^)]+/, lineBreaks: true },
+					{ type: "close", match: ")", pop: 1 },
+				],
+			},
+			"main",
+		);
+		lexer.reset();
+		const tokens = [
+			...lexAll(lexer.feed("a(b c")),
+			...lexAll(lexer.feed(" d)e")),
+			...lexAll(lexer.end()),
+		];
+		expect(tokens.map(({ type, value }) => [type, value])).toEqual([
+			["word", "a"],
+			["open", "("],
+			["text", "b c d"],
+			["close", ")"],
+			["word", "e"],
+		]);
+	});
+
+	test("holds back matches following a fallback", () => {
+		const lexer = compile([
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "other", option: "fallback" },
+		]);
+		lexer.reset();
+		expect(lexAll(lexer.feed("12ab"))).toMatchObject([{ type: "other", value: "12" }]);
+		expect(lexAll(lexer.feed("c"))).toEqual([]);
+		expect(lexAll(lexer.feed("3"))).toMatchObject([
+			{ type: "word", value: "abc" },
+			{ type: "other", value: "3", offset: 5 },
+		]);
+		expect(lexAll(lexer.feed("45d"))).toMatchObject([{ type: "other", value: "45", offset: 6 }]);
+		expect(lexAll(lexer.end())).toMatchObject([{ type: "word", value: "d", offset: 8 }]);
+	});
+
+	test("throws on invalid syntax without waiting for the end", () => {
+		lexer.reset();
+		expect(lexAll(lexer.feed("foo "))).toHaveLength(1);
+		expect(() => lexAll(lexer.feed("!"))).toThrowError(LexError);
+		expect(lexAll(lexer.feed(" bar")).map((t) => t.value)).toEqual([" "]);
+		expect(lexAll(lexer.end()).map((t) => t.value)).toEqual(["bar"]);
+	});
+
+	test("holds back unmatched data only while it can start a match", () => {
+		lexer.reset();
+		expect(lexAll(lexer.feed('foo "ba'))).toHaveLength(2);
+		expect(lexer.index).toBe(4);
+		expect(lexAll(lexer.feed('r" ='))).toMatchObject([{ type: "string" }, { type: "WS" }]);
+		expect(lexAll(lexer.end())).toMatchObject([{ type: "op", value: "=" }]);
+	});
+
+	test("releases the data following invalid syntax", () => {
+		const lexer = compile([
+			{ type: "word", match: /[a-z]+/ },
+			{ type: "space", match: " " },
+			{ type: "error", option: "error" },
+		]);
+		lexer.reset();
+		const tokens = lexAll(lexer.feed("abc ! "));
+		for (let i = 0; i < 1000; i++) {
+			tokens.push(...lexAll(lexer.feed("def ")));
+			expect(lexer.data.length).toBeLessThan(10);
+		}
+		tokens.push(...lexAll(lexer.end()));
+		expect(tokens.slice(0, 4).map((t) => [t.type, t.value])).toEqual([
+			["word", "abc"],
+			["space", " "],
+			["error", "! "],
+			["word", "def"],
+		]);
+		expect(tokens).toHaveLength(2003);
+	});
+
+	test("formats errors with input offsets", () => {
+		lexer.reset();
+		lexAll(lexer.feed("foo\nb"));
+		lexAll(lexer.feed("ar "));
+		expect(lexer.formatError(5, "oops")).toBe("oops at line 2 col 2:\n\n2  bar \n    ^");
+		expect(() => lexer.formatError(0)).toThrowError(RangeError);
+	});
+});
+
+describe("tokenizeStream", () => {
+	const lexer = compile([
+		{ type: "WS", match: / +/u },
+		{ type: "word", match: /\p{L}+/u },
+		{ type: "NL", match: "\n", lineBreaks: true },
+	]);
+	const data = "héllo wörld\nçà va\n";
+	const expected = lexAll(lexer.reset(data));
+
+	async function collect(tokens: AsyncIterable<Token>) {
+		const result: Token[] = [];
+		for await (const token of tokens) {
+			result.push(token);
+		}
+		return result;
+	}
+
+	test("tokenizes async iterables of strings", async () => {
+		async function* chunks() {
+			yield "héllo wö";
+			yield "rld\nç";
+			yield "à va\n";
+		}
+		expect(await collect(lexer.tokenizeStream(chunks()))).toEqual(expected);
+	});
+
+	test("decodes bytes split inside characters", async () => {
+		const bytes = new TextEncoder().encode(data);
+		// Split every multibyte character across chunks
+		const chunks = Array.from({ length: bytes.length }, (_, i) => bytes.subarray(i, i + 1));
+		expect(await collect(lexer.tokenizeStream(Readable.from(chunks)))).toEqual(expected);
+	});
+
+	test("tokenizes web ReadableStreams", async () => {
+		const bytes = new TextEncoder().encode(data);
+		const stream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(bytes.subarray(0, 2));
+				controller.enqueue(bytes.subarray(2, 15));
+				controller.enqueue(bytes.subarray(15));
+				controller.close();
+			},
+		});
+		expect(await collect(lexer.tokenizeStream(stream))).toEqual(expected);
+	});
+
+	test("tokenizes streams without async iteration", async () => {
+		const stream = new ReadableStream<string>({
+			start(controller) {
+				controller.enqueue("héllo w");
+				controller.enqueue("örld\nçà va\n");
+				controller.close();
+			},
+		});
+		const { getReader } = stream;
+		const tokens = lexer.tokenizeStream({ getReader: getReader.bind(stream) } as ReadableStream);
+		expect(await collect(tokens)).toEqual(expected);
+	});
+});
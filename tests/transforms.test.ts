@@ -63,7 +63,7 @@ describe("type transforms", () => {
 						"kw-if": "if",
 					})(x) || "identifier",
 			},
-			{ type: "space", match: /\s+/ },
+			{ type: "space", match: /\s+/, lineBreaks: true },
 		]);
 		lexer.reset("foo def");
 		expect(Array.from(lexer).map((t) => t.type)).toEqual(["identifier", "space", "kw-def"]);
@@ -1,33 +1,120 @@
-// describe("unicode flag", () => {
-// 	test("allows all rules to be /u", () => {
-// 		expect(() => compile({ a: /foo/u, b: /bar/u, c: "quxx" })).not.toThrow();
-// 		expect(() => compile({ a: /foo/u, b: /bar/, c: "quxx" })).toThrow(
-// 			"If one rule is /u then all must be",
-// 		);
-// 		expect(() => compile({ a: /foo/, b: /bar/u, c: "quxx" })).toThrow(
-// 			"If one rule is /u then all must be",
-// 		);
-// 	});
-
-// 	test("unicode rules work with fallback token", () => {
-// 		expect(() => compile({ a: fallback, b: /bar/u, c: /quxx/u })).not.toThrow();
-// 	});
-
-// 	test("supports unicode", () => {
-// 		const lexer = compile({
-// 			a: /[𝌆]/u,
-// 		});
-// 		lexer.reset("𝌆");
-// 		expect(lexer.next()).toMatchObject({ value: "𝌆" });
-// 		lexer.reset("𝌆".charCodeAt(0).toString());
-// 		expect(() => lexer.next()).toThrow();
-
-// 		const lexer2 = compile({
-// 			a: /\u{1D356}/u,
-// 		});
-// 		lexer2.reset("𝍖");
-// 		expect(lexer2.next()).toMatchObject({ value: "𝍖" });
-// 		lexer2.reset("\\u{1D356}");
-// 		expect(() => lexer2.next()).toThrow();
-// 	});
-// });
+import { describe, expect, test } from "vitest";
+import { compile, states } from "../index";
+import { lexAll } from "./utils";
+
+describe("unicode flag", () => {
+	test("allows all rules to be /u", () => {
+		expect(() =>
+			compile([
+				{ type: "a", match: /foo/u },
+				{ type: "b", match: /bar/u },
+				{ type: "c", match: "quxx" },
+			]),
+		).not.toThrow();
+		expect(() =>
+			compile([
+				{ type: "a", match: /foo/u },
+				{ type: "b", match: /bar/ },
+				{ type: "c", match: "quxx" },
+			]),
+		).toThrow("If one rule is /u then all must be");
+		expect(() =>
+			compile([
+				{ type: "a", match: /foo/ },
+				{ type: "b", match: /bar/u },
+				{ type: "c", match: "quxx" },
+			]),
+		).toThrow("If one rule is /u then all must be");
+		expect(() => compile([{ type: "a", match: [/foo/u, /bar/] }])).toThrow(
+			expect.objectContaining({ code: "MIXED_FLAGS", ruleIndex: 0 }),
+		);
+	});
+
+	test("allows all rules to be /v", () => {
+		expect(() =>
+			compile([
+				{ type: "a", match: /[\p{L}--[a-z]]/v },
+				{ type: "b", match: "-" },
+			]),
+		).not.toThrow();
+		expect(() =>
+			compile([
+				{ type: "a", match: /foo/v },
+				{ type: "b", match: /bar/ },
+			]),
+		).toThrow("If one rule is /v then all must be");
+		expect(() =>
+			compile([
+				{ type: "a", match: /foo/v },
+				{ type: "b", match: /bar/u },
+			]),
+		).toThrow("RegExp /u and /v flags cannot be mixed");
+	});
+
+	test("checks flags per state", () => {
+		expect(() =>
+			states(
+				{
+					main: [{ type: "a", match: /a/u, next: "other" }],
+					other: [{ type: "b", match: /b/, next: "main" }],
+				},
+				"main",
+			),
+		).not.toThrow();
+	});
+
+	test("unicode rules work with fallback token", () => {
+		const lexer = compile([
+			{ type: "a", option: "fallback" },
+			{ type: "b", match: /bar/u },
+			{ type: "c", match: /[𝌆]/u },
+		]);
+		lexer.reset("𝌆😀bar");
+		expect(lexAll(lexer).map((t) => [t.type, t.value])).toEqual([
+			["c", "𝌆"],
+			["a", "😀"],
+			["b", "bar"],
+		]);
+	});
+
+	test("supports unicode", () => {
+		const lexer = compile([{ type: "a", match: /[𝌆]/u }]);
+		lexer.reset("𝌆");
+		expect(lexer.next()).toMatchObject({ value: "𝌆" });
+		lexer.reset("𝌆".charCodeAt(0).toString());
+		expect(() => lexer.next()).toThrow();
+
+		const lexer2 = compile([{ type: "a", match: /\u{1D356}/u }]);
+		lexer2.reset("𝍖");
+		expect(lexer2.next()).toMatchObject({ value: "𝍖" });
+		lexer2.reset("\\u{1D356}");
+		expect(() => lexer2.next()).toThrow();
+	});
+
+	test("supports property escapes", () => {
+		const lexer = compile([
+			{ type: "word", match: /\p{L}+/u },
+			{ type: "op", match: ["-", "(", "{"] },
+			{ type: "space", match: / +/u },
+		]);
+		lexer.reset("héllo-wörld ({");
+		expect(lexAll(lexer).map((t) => t.value)).toEqual(["héllo", "-", "wörld", " ", "(", "{"]);
+	});
+
+	test("keeps offsets and columns in UTF-16 code units", () => {
+		const lexer = compile([
+			{ type: "emoji", match: /\p{Extended_Pictographic}/u },
+			{ type: "word", match: /\p{L}+/u },
+			{ type: "space", match: / /u },
+		]);
+		lexer.reset("😀 𝒳y 😀");
+		expect(lexAll(lexer).map((t) => [t.value, t.offset, t.col])).toEqual([
+			["😀", 0, 1],
+			[" ", 2, 3],
+			["𝒳y", 3, 4],
+			[" ", 6, 7],
+			["😀", 7, 8],
+		]);
+		expect(lexer).toMatchObject({ index: 9, col: 10 });
+	});
+});